@@ -0,0 +1,82 @@
+import type { CSSProperties, ReactNode } from 'react'
+import { useCloseNotice } from '../hooks/useCloseNotice'
+
+/**
+ * Props for NoticeDragRegion component
+ */
+interface NoticeDragRegionProps {
+  /**
+   * Content of the region (e.g. a title); clicks on it still drag the window
+   */
+  children?: ReactNode
+  /**
+   * Optional class name
+   */
+  className?: string
+  /**
+   * Optional inline styles
+   */
+  style?: CSSProperties
+}
+
+/**
+ * Area that moves a frameless notice window when dragged
+ * Requires the `core:window:allow-start-dragging` capability
+ */
+export const NoticeDragRegion = ({ children, className, style }: NoticeDragRegionProps) => {
+  return (
+    <div data-tauri-drag-region className={className} style={style}>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Props for NoticeCloseButton component
+ */
+interface NoticeCloseButtonProps {
+  /**
+   * Button content (default: ×)
+   */
+  children?: ReactNode
+  /**
+   * Optional class name
+   */
+  className?: string
+  /**
+   * Optional inline styles
+   */
+  style?: CSSProperties
+}
+
+/**
+ * Button that closes the notice window it is rendered in
+ * Frameless windows have no native close button, so templates can use this instead
+ */
+export const NoticeCloseButton = ({ children, className, style }: NoticeCloseButtonProps) => {
+  const { closeNotice } = useCloseNotice()
+
+  return (
+    <button
+      type="button"
+      aria-label="Close"
+      className={className}
+      style={
+        className
+          ? style
+          : {
+              border: 'none',
+              background: 'transparent',
+              cursor: 'pointer',
+              fontSize: 16,
+              lineHeight: 1,
+              padding: '4px 8px',
+              ...style,
+            }
+      }
+      onClick={closeNotice}
+    >
+      {children ?? '×'}
+    </button>
+  )
+}
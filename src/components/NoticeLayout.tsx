@@ -1,6 +1,10 @@
 import { useEffect, useState, type ReactNode } from 'react'
-import type { MessageType } from '../types/message'
-import { getMessage } from '../utils/db'
+import type { MessageType, StoredMessage } from '../types/message'
+import { getMessage, observeMessage, adoptDatabaseName } from '../utils/db'
+import { AutoCloseContext, useAutoCloseTimer } from '../hooks/useAutoClose'
+import { NoticeDragRegion, NoticeCloseButton } from './NoticeFrame'
+import { startActivityTracker } from '../utils/activityTracker'
+import { noticeLog } from '../utils/logger'
 
 /**
  * Props for NoticeLayout component
@@ -18,16 +22,22 @@ interface NoticeLayoutProps {
    * Optional callback when window is closed
    */
   onClose?: (message: MessageType) => void
+  /**
+   * Frame drawn for frameless windows (windowOptions.decorations === false):
+   * 'auto' adds a drag bar with a close button (default), 'none' leaves it to the template
+   */
+  frame?: 'auto' | 'none'
 }
 
 /**
  * Layout component for notice windows
  * Loads the message from database/URL and provides it to children
  */
-export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) => {
-  const [message, setMessage] = useState<MessageType | null>(null)
+export const NoticeLayout = ({ children, onLoad, onClose, frame = 'auto' }: NoticeLayoutProps) => {
+  const [message, setMessage] = useState<StoredMessage | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const autoClose = useAutoCloseTimer(message)
 
   useEffect(() => {
     const loadMessage = async () => {
@@ -35,6 +45,7 @@ export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) =
         // Get message ID from URL query params
         const urlParams = new URLSearchParams(window.location.search)
         const messageId = urlParams.get('id')
+        const scope = urlParams.get('scope') ?? undefined
 
         if (!messageId) {
           setError('No message ID provided')
@@ -42,8 +53,10 @@ export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) =
           return
         }
 
-        // Load message from database
-        const storedMessage = await getMessage(messageId)
+        // Load message from the database the opening window uses
+        const databaseName = urlParams.get('db')
+        if (databaseName) adoptDatabaseName(databaseName)
+        const storedMessage = await getMessage(messageId, scope)
 
         if (!storedMessage) {
           setError('Message not found')
@@ -59,7 +72,7 @@ export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) =
           onLoad(storedMessage)
         }
       } catch (err) {
-        console.error('Failed to load message:', err)
+        noticeLog.error('Failed to load message', { error: err })
         setError('Failed to load message')
         setLoading(false)
       }
@@ -68,6 +81,26 @@ export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) =
     loadMessage()
   }, [onLoad])
 
+  // Interacting with a notice counts as being present
+  useEffect(() => startActivityTracker(), [])
+
+  // Pick up content updates pushed into the open window
+  const messageId = message?.id
+  const messageScope = message?.scope
+  useEffect(() => {
+    if (!messageId) return
+
+    return observeMessage(
+      messageId,
+      (storedMessage) => {
+        if (storedMessage) {
+          setMessage(storedMessage)
+        }
+      },
+      messageScope
+    )
+  }, [messageId, messageScope])
+
   // Handle window close event
   useEffect(() => {
     if (!message || !onClose) return
@@ -112,6 +145,25 @@ export const NoticeLayout = ({ children, onLoad, onClose }: NoticeLayoutProps) =
     )
   }
 
-  return <>{children(message)}</>
+  const showFrame = frame === 'auto' && message.windowOptions?.decorations === false
+
+  return (
+    <AutoCloseContext.Provider value={autoClose}>
+      {showFrame && (
+        <NoticeDragRegion
+          style={{
+            display: 'flex',
+            justifyContent: 'flex-end',
+            alignItems: 'center',
+            height: 28,
+            userSelect: 'none',
+          }}
+        >
+          <NoticeCloseButton />
+        </NoticeDragRegion>
+      )}
+      {children(message)}
+    </AutoCloseContext.Provider>
+  )
 }
 
@@ -1,4 +1,6 @@
-import type { NoticeConfig } from '../types/message'
+import type { MessageType, NoticeConfig, NoticeTypeConfig } from '../types/message'
+import { parseTimeOfDay } from '../utils/quietHours'
+import { configureNoticeLogger, noticeLog } from '../utils/logger'
 
 const CONFIG_STORAGE_KEY = 'tauri-notice-config'
 
@@ -10,42 +12,221 @@ const defaultConfig: NoticeConfig = {
   databaseName: 'tauri-notice-db',
   defaultWidth: 400,
   defaultHeight: 300,
+  preemption: 'none',
+  maxConcurrent: 1,
+  stackGap: 10,
+  defaultAutoCloseMs: 0,
+  defaultDedupePolicy: 'ignore',
+  storage: 'indexeddb',
+  customIndexes: { version: 0, fields: [] },
+  windowAdapter: 'tauri',
+  ownerLabel: 'main',
+  quietHours: [],
+  dndBreakthroughPriority: 'critical',
+  dndSummaryType: null,
+  idleTimeoutMs: 0,
+  defaultWindowOptions: {},
+  windowRetry: { attempts: 3, delayMs: 500, backoffFactor: 2, timeoutMs: 10000 },
+  types: {},
+  logger: null,
+  debug: false,
+  debugLogSize: 200,
+  persist: false,
 }
 
 /**
- * Load config from localStorage
+ * Listener notified after every config change
  */
-const loadConfigFromStorage = (): NoticeConfig => {
+type NoticeConfigListener = (config: NoticeConfig, previousConfig: NoticeConfig) => void
+
+const listeners = new Set<NoticeConfigListener>()
+
+/**
+ * Load a config previously saved with `persist: true`
+ */
+const loadPersistedConfig = (): Partial<NoticeConfig> => {
   try {
-    const stored = localStorage.getItem(CONFIG_STORAGE_KEY)
+    const stored = typeof localStorage !== 'undefined' && localStorage.getItem(CONFIG_STORAGE_KEY)
     if (stored) {
-      return { ...defaultConfig, ...JSON.parse(stored) }
+      const parsed = JSON.parse(stored) as Partial<NoticeConfig>
+      if (parsed.persist) {
+        validateNoticeConfig(parsed)
+        return parsed
+      }
     }
   } catch (error) {
-    console.warn('Failed to load config from localStorage:', error)
+    noticeLog.warn('Ignoring invalid persisted notice config', { error })
   }
-  return defaultConfig
+  return {}
 }
 
 /**
- * Save config to localStorage
+ * Save the serializable part of the config to localStorage, or remove it when persistence is off
  */
-const saveConfigToStorage = (config: NoticeConfig): void => {
+const savePersistedConfig = (config: NoticeConfig): void => {
   try {
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config))
+    if (!config.persist) {
+      localStorage.removeItem(CONFIG_STORAGE_KEY)
+      return
+    }
+    // Custom storage backends, window adapters and loggers are objects with behaviour, so they stay per-window
+    const { storage, windowAdapter, logger, ...serializable } = config
+    localStorage.setItem(
+      CONFIG_STORAGE_KEY,
+      JSON.stringify(typeof storage === 'string' ? { ...serializable, storage } : serializable)
+    )
   } catch (error) {
-    console.warn('Failed to save config to localStorage:', error)
+    noticeLog.warn('Failed to save config to localStorage', { error })
   }
 }
 
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const isIntegerAtLeast = (value: unknown, min: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Validate a (partial) notice configuration
+ * @param config - Configuration to check
+ * @throws Error listing every invalid field
+ */
+export const validateNoticeConfig = (config: Partial<NoticeConfig>): void => {
+  const problems: string[] = []
+  const check = (key: keyof NoticeConfig, valid: (value: unknown) => boolean, expected: string) => {
+    if (config[key] !== undefined && !valid(config[key])) {
+      problems.push(`${key} must be ${expected}`)
+    }
+  }
+
+  check('routePrefix', (v) => typeof v === 'string' && v.startsWith('/'), "a path starting with '/'")
+  check('databaseName', (v) => typeof v === 'string' && v.length > 0, 'a non-empty string')
+  check('defaultWidth', isPositiveNumber, 'a positive number')
+  check('defaultHeight', isPositiveNumber, 'a positive number')
+  check('preemption', (v) => v === 'none' || v === 'requeue', "'none' or 'requeue'")
+  check('maxConcurrent', (v) => isIntegerAtLeast(v, 1), 'an integer of at least 1')
+  check('stackGap', isNonNegativeNumber, 'a non-negative number')
+  check('defaultAutoCloseMs', isNonNegativeNumber, 'a non-negative number')
+  check(
+    'defaultDedupePolicy',
+    (v) => v === 'ignore' || v === 'replace' || v === 'update',
+    "'ignore', 'replace' or 'update'"
+  )
+  check(
+    'storage',
+    (v) => v === 'indexeddb' || v === 'memory' || isObject(v),
+    "'indexeddb', 'memory' or a NoticeStorage object"
+  )
+  check(
+    'customIndexes',
+    (v) => isObject(v) && isIntegerAtLeast(v.version, 0) && Array.isArray(v.fields),
+    '{ version: non-negative integer, fields: string[] }'
+  )
+  check(
+    'windowAdapter',
+    (v) => v === 'tauri' || (isObject(v) && typeof v.createWindow === 'function'),
+    "'tauri' or a NoticeWindowAdapter object"
+  )
+  check('ownerLabel', (v) => typeof v === 'string' && v.length > 0, 'a non-empty window label')
+  check(
+    'quietHours',
+    (v) =>
+      Array.isArray(v) &&
+      v.every(
+        (rule: unknown) =>
+          isObject(rule) &&
+          typeof rule.start === 'string' &&
+          typeof rule.end === 'string' &&
+          parseTimeOfDay(rule.start) !== null &&
+          parseTimeOfDay(rule.end) !== null
+      ),
+    "a list of { start: 'HH:MM', end: 'HH:MM', days?: number[] }"
+  )
+  check(
+    'dndBreakthroughPriority',
+    (v) => v === null || (typeof v === 'string' && ['low', 'normal', 'high', 'critical'].includes(v)),
+    'a priority or null'
+  )
+  check('dndSummaryType', (v) => v === null || (typeof v === 'string' && v.length > 0), 'a message type or null')
+  check('idleTimeoutMs', isNonNegativeNumber, 'a non-negative number')
+  check(
+    'defaultWindowOptions',
+    isObject,
+    'an object of window options'
+  )
+  check(
+    'windowRetry',
+    (v) =>
+      isObject(v) &&
+      isIntegerAtLeast(v.attempts, 1) &&
+      isNonNegativeNumber(v.delayMs) &&
+      typeof v.backoffFactor === 'number' &&
+      v.backoffFactor >= 1 &&
+      isPositiveNumber(v.timeoutMs),
+    '{ attempts: integer >= 1, delayMs: number >= 0, backoffFactor: number >= 1, timeoutMs: number > 0 }'
+  )
+  check('types', isObject, 'an object keyed by message type')
+  check(
+    'logger',
+    (v) =>
+      v === null ||
+      (isObject(v) && ['debug', 'info', 'warn', 'error'].every((level) => typeof v[level] === 'function')),
+    'null or an object with debug, info, warn and error functions'
+  )
+  check('debug', (v) => typeof v === 'boolean', 'a boolean')
+  check('debugLogSize', (v) => isIntegerAtLeast(v, 1), 'an integer of at least 1')
+  check('persist', (v) => typeof v === 'boolean', 'a boolean')
+
+  Object.entries(isObject(config.types) ? config.types : {}).forEach(([type, typeConfig]) => {
+    if (!isObject(typeConfig)) {
+      problems.push(`types.${type} must be an object of type settings`)
+      return
+    }
+    if (typeConfig.width !== undefined && !isPositiveNumber(typeConfig.width)) {
+      problems.push(`types.${type}.width must be a positive number`)
+    }
+    if (typeConfig.height !== undefined && !isPositiveNumber(typeConfig.height)) {
+      problems.push(`types.${type}.height must be a positive number`)
+    }
+    if (typeConfig.autoCloseMs !== undefined && !isNonNegativeNumber(typeConfig.autoCloseMs)) {
+      problems.push(`types.${type}.autoCloseMs must be a non-negative number`)
+    }
+  })
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid notice config: ${problems.join('; ')}`)
+  }
+}
+
+/**
+ * Current configuration, kept in memory for this window
+ */
+let currentConfig: NoticeConfig = { ...defaultConfig, ...loadPersistedConfig() }
+configureNoticeLogger(currentConfig)
+
 /**
  * Update notice window configuration
  * @param newConfig - Partial configuration to merge with current config
+ * @throws Error if any field is invalid (the current config is left unchanged)
  */
 export const setNoticeConfig = (newConfig: Partial<NoticeConfig>): void => {
-  const currentConfig = loadConfigFromStorage()
-  const updatedConfig = { ...currentConfig, ...newConfig }
-  saveConfigToStorage(updatedConfig)
+  validateNoticeConfig(newConfig)
+
+  const previousConfig = currentConfig
+  currentConfig = { ...currentConfig, ...newConfig }
+
+  if (currentConfig.persist || previousConfig.persist) {
+    savePersistedConfig(currentConfig)
+  }
+  configureNoticeLogger(currentConfig)
+
+  listeners.forEach((listener) => listener(currentConfig, previousConfig))
 }
 
 /**
@@ -53,6 +234,67 @@ export const setNoticeConfig = (newConfig: Partial<NoticeConfig>): void => {
  * @returns Current configuration object
  */
 export const getNoticeConfig = (): NoticeConfig => {
-  return loadConfigFromStorage()
+  return currentConfig
 }
 
+/**
+ * Restore the default configuration (persisted config included)
+ */
+export const resetNoticeConfig = (): void => {
+  setNoticeConfig({ ...defaultConfig })
+}
+
+/**
+ * Subscribe to configuration changes
+ * @param listener - Called with the new and previous config after every change
+ * @returns Function that removes the listener
+ */
+export const subscribeNoticeConfig = (listener: NoticeConfigListener): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Get the overrides configured for a message type
+ * @param type - Message type
+ * @returns Type config (empty if none)
+ */
+export const getNoticeTypeConfig = (type: string): NoticeTypeConfig => {
+  return currentConfig.types[type] ?? {}
+}
+
+/**
+ * Fill in message fields the message leaves unset from its type config, then the global defaults
+ * Applied when a message is enqueued, so the stored message carries its effective settings
+ * and the notice window doesn't depend on its own copy of the config
+ * @param message - Message to complete
+ * @returns Message with type defaults applied
+ */
+export const applyTypeDefaults = (message: MessageType): MessageType => {
+  const typeConfig = getNoticeTypeConfig(message.type)
+  const defaults: Partial<MessageType> = {
+    min_width: typeConfig.width,
+    min_height: typeConfig.height,
+    windowPosition: typeConfig.windowPosition,
+    priority: typeConfig.priority,
+    autoCloseMs: typeConfig.autoCloseMs ?? currentConfig.defaultAutoCloseMs,
+    dedupePolicy: typeConfig.dedupePolicy,
+    requireAttention: typeConfig.requireAttention,
+  }
+  const definedDefaults = Object.fromEntries(
+    Object.entries(defaults).filter(([, value]) => value !== undefined)
+  )
+
+  // Window options merge field by field so the notice page sees the effective settings
+  // (e.g. whether it must draw its own frame)
+  const mergedWindowOptions = {
+    ...currentConfig.defaultWindowOptions,
+    ...typeConfig.windowOptions,
+    ...message.windowOptions,
+  }
+  const windowOptions = Object.keys(mergedWindowOptions).length > 0 ? mergedWindowOptions : undefined
+
+  return { ...definedDefaults, ...message, ...(windowOptions && { windowOptions }) }
+}
@@ -0,0 +1,121 @@
+import { createContext, useContext, useEffect, useState } from 'react'
+import type { MessageType } from '../types/message'
+import { getNoticeConfig } from '../config/noticeConfig'
+import { noticeLog } from '../utils/logger'
+import { getWindowAdapter } from '../utils/windowAdapter'
+
+/**
+ * How often the remaining time is updated, in milliseconds
+ */
+const TICK_MS = 100
+
+/**
+ * Auto-close countdown state of a notice window
+ */
+export interface AutoCloseState {
+  /** Whether the window closes on its own */
+  enabled: boolean
+  /** Full auto-close delay in milliseconds */
+  totalMs: number
+  /** Milliseconds left before the window closes */
+  remainingMs: number
+  /** Whether the countdown is paused (window focused or hovered) */
+  paused: boolean
+}
+
+/**
+ * Context provided by NoticeLayout to the notice page
+ */
+export const AutoCloseContext = createContext<AutoCloseState>({
+  enabled: false,
+  totalMs: 0,
+  remainingMs: 0,
+  paused: false,
+})
+
+/**
+ * Run the auto-close countdown for a notice window
+ * The countdown pauses while the pointer is over the window or once the user focuses it,
+ * and closes the window through the regular destroy path when it runs out
+ * @param message - Message shown in the window, null while loading
+ * @returns Current countdown state
+ */
+export const useAutoCloseTimer = (message: MessageType | null): AutoCloseState => {
+  const totalMs = message ? message.autoCloseMs ?? getNoticeConfig().defaultAutoCloseMs : 0
+  const enabled = totalMs > 0
+
+  const [remainingMs, setRemainingMs] = useState(totalMs)
+  // Message the countdown was started for; remainingMs means nothing for any other one
+  const [countdownId, setCountdownId] = useState<string | null>(null)
+  const started = !!message && countdownId === message.id
+  // New windows take focus when they open, so only focus gained afterwards pauses the countdown
+  const [focused, setFocused] = useState(false)
+  const [hovered, setHovered] = useState(false)
+  const paused = focused || hovered
+
+  // Restart the countdown when the message changes
+  useEffect(() => {
+    setRemainingMs(totalMs)
+    setCountdownId(message?.id ?? null)
+  }, [message?.id, totalMs])
+
+  // Track focus and pointer
+  useEffect(() => {
+    const root = document.documentElement
+    const handleFocus = () => setFocused(true)
+    const handleBlur = () => setFocused(false)
+    const handleEnter = () => setHovered(true)
+    const handleLeave = () => setHovered(false)
+
+    window.addEventListener('focus', handleFocus)
+    window.addEventListener('blur', handleBlur)
+    root.addEventListener('mouseenter', handleEnter)
+    root.addEventListener('mouseleave', handleLeave)
+
+    return () => {
+      window.removeEventListener('focus', handleFocus)
+      window.removeEventListener('blur', handleBlur)
+      root.removeEventListener('mouseenter', handleEnter)
+      root.removeEventListener('mouseleave', handleLeave)
+    }
+  }, [])
+
+  // Count down while not paused
+  useEffect(() => {
+    if (!enabled || paused) return
+
+    let last = Date.now()
+    const interval = setInterval(() => {
+      const now = Date.now()
+      const elapsed = now - last
+      last = now
+      setRemainingMs((previous) => Math.max(0, previous - elapsed))
+    }, TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [enabled, paused])
+
+  // Close the window when time runs out, unless the user is looking at it
+  useEffect(() => {
+    if (!enabled || !started || paused || remainingMs > 0) return
+
+    const adapter = getWindowAdapter()
+    adapter
+      .getWindow(adapter.getCurrentLabel())
+      .then((currentWindow) => currentWindow?.close())
+      .catch((error) =>
+        noticeLog.error('Failed to auto-close notice window', { messageId: message?.id, error })
+      )
+  }, [enabled, started, paused, remainingMs])
+
+  return { enabled, totalMs, remainingMs: started ? remainingMs : totalMs, paused }
+}
+
+/**
+ * Hook to read the auto-close countdown of the current notice window
+ * Must be used in a component rendered inside NoticeLayout
+ * @returns Countdown state, e.g. for drawing a progress bar
+ */
+export const useAutoClose = (): AutoCloseState => {
+  return useContext(AutoCloseContext)
+}
@@ -11,8 +11,10 @@ export const useCloseNotice = () => {
   const currentMessage = useMessageQueueStore((state) => state.currentMessage)
 
   const closeNotice = useCallback(async () => {
-    if (currentMessage) {
-      await closeNoticeWindow(currentMessage.id)
+    // With several notices open, the window's own message comes from its URL
+    const messageId = new URLSearchParams(window.location.search).get('id') ?? currentMessage?.id
+    if (messageId) {
+      await closeNoticeWindow(messageId)
     }
   }, [currentMessage])
 
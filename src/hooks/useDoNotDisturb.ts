@@ -0,0 +1,30 @@
+import { useCallback } from 'react'
+import { useMessageQueueStore, messageQueueSelectors } from '../stores/messageQueueStore'
+import { getNoticeConfig } from '../config/noticeConfig'
+import { isInQuietHours } from '../utils/quietHours'
+
+/**
+ * Hook to control Do Not Disturb
+ * While active, only notices at or above dndBreakthroughPriority are shown;
+ * the rest wait in the queue and are summarized when Do Not Disturb ends
+ * @returns Manual flag, effective state, quiet hours state, held count and toggles
+ */
+export const useDoNotDisturb = () => {
+  const enabled = useMessageQueueStore(messageQueueSelectors.doNotDisturb)
+  const active = useMessageQueueStore(messageQueueSelectors.dndActive)
+  const suppressedCount = useMessageQueueStore(messageQueueSelectors.dndSuppressedCount)
+  const setDoNotDisturb = useMessageQueueStore((state) => state.setDoNotDisturb)
+
+  const enable = useCallback(() => setDoNotDisturb(true), [setDoNotDisturb])
+  const disable = useCallback(() => setDoNotDisturb(false), [setDoNotDisturb])
+
+  return {
+    enabled,
+    active,
+    inQuietHours: active && isInQuietHours(getNoticeConfig().quietHours),
+    suppressedCount,
+    enable,
+    disable,
+    setDoNotDisturb,
+  }
+}
@@ -1,6 +1,5 @@
 import { useCallback } from 'react'
 import { useMessageQueueStore } from '../stores/messageQueueStore'
-import { closeAllNoticeWindows } from '../utils/noticeWindow'
 
 /**
  * Hook to hide all pending and active notices
@@ -9,13 +8,9 @@ import { closeAllNoticeWindows } from '../utils/noticeWindow'
 export const useHideAllNotices = () => {
   const clearOnLogout = useMessageQueueStore((state) => state.clearOnLogout)
 
-  const hideAllNotices = useCallback(async () => {
-    // Close all active windows
-    await closeAllNoticeWindows()
-
-    // Clear queue and database
-    await clearOnLogout()
-  }, [clearOnLogout])
+  // Clears the queue and database first; the window system then closes the open windows,
+  // which find their rows gone and don't report the notices as closed
+  const hideAllNotices = useCallback(() => clearOnLogout(), [clearOnLogout])
 
   return { hideAllNotices }
 }
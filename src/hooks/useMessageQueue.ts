@@ -1,20 +1,36 @@
 import { useMessageQueueStore, messageQueueSelectors } from '../stores/messageQueueStore'
 
 /**
- * Hook to access message queue state
- * @returns Queue state information
+ * Hook to access message queue state and manage queued messages
+ * @returns Queue state information and queue management actions
  */
 export const useMessageQueue = () => {
   const queueLength = useMessageQueueStore(messageQueueSelectors.queueLength)
   const currentMessage = useMessageQueueStore(messageQueueSelectors.currentMessage)
+  const showingMessages = useMessageQueueStore(messageQueueSelectors.showingMessages)
   const isProcessing = useMessageQueueStore(messageQueueSelectors.isProcessing)
   const queue = useMessageQueueStore(messageQueueSelectors.queue)
+  const isAway = useMessageQueueStore(messageQueueSelectors.isAway)
+  const isPaused = useMessageQueueStore(messageQueueSelectors.isPaused)
+  const peek = useMessageQueueStore((state) => state.peek)
+  const remove = useMessageQueueStore((state) => state.remove)
+  const moveTo = useMessageQueueStore((state) => state.moveTo)
+  const pause = useMessageQueueStore((state) => state.pause)
+  const resume = useMessageQueueStore((state) => state.resume)
 
   return {
     queueLength,
     currentMessage,
+    showingMessages,
     isProcessing,
     queue,
+    isAway,
+    isPaused,
+    peek,
+    remove,
+    moveTo,
+    pause,
+    resume,
   }
 }
 
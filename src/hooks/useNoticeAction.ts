@@ -0,0 +1,28 @@
+import { useCallback } from 'react'
+import { getMessage } from '../utils/db'
+import { takeNoticeAction } from '../utils/noticeActions'
+import { closeNoticeWindow } from '../utils/noticeWindow'
+
+/**
+ * Hook to report which action the user chose in a notice window
+ * Should be called from within a notice window component
+ * @returns Object with takeAction function
+ */
+export const useNoticeAction = () => {
+  const takeAction = useCallback(async (actionId: string, payload?: any) => {
+    const params = new URLSearchParams(window.location.search)
+    const messageId = params.get('id')
+    if (!messageId) return
+
+    await takeNoticeAction(messageId, actionId, payload)
+
+    // Close unless the action asks to keep the window open
+    const message = await getMessage(messageId, params.get('scope') ?? undefined)
+    const action = message?.actions?.find((a) => a.id === actionId)
+    if (action?.closeOnAction !== false) {
+      await closeNoticeWindow(messageId)
+    }
+  }, [])
+
+  return { takeAction }
+}
@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react'
+import type { NoticeEvent, NoticeEventType } from '../types/message'
+import { onNoticeEvent } from '../utils/noticeEvents'
+
+/**
+ * Hook to react to notice lifecycle events from any window
+ * The handler may change between renders without resubscribing
+ * @param handler - Called with each event
+ * @param types - Only deliver these event types (all when omitted)
+ */
+export const useNoticeEvents = (
+  handler: (event: NoticeEvent) => void,
+  types?: NoticeEventType | NoticeEventType[]
+): void => {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  const typesKey = types === undefined ? '' : ([] as NoticeEventType[]).concat(types).join(',')
+
+  useEffect(() => {
+    const filter = typesKey ? (typesKey.split(',') as NoticeEventType[]) : undefined
+    return onNoticeEvent((event) => handlerRef.current(event), filter)
+  }, [typesKey])
+}
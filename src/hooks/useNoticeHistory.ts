@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { NoticeHistoryQuery, StoredMessage } from '../types/message'
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import {
+  observeHistory,
+  markAsRead,
+  markAllAsRead,
+  deleteMessage,
+} from '../utils/db'
+
+/**
+ * Hook to list past notices for a notification center
+ * Updates live when notices are shown, read or deleted in any window
+ * @param query - Status/type filters and paging (scope defaults to the current account)
+ * @returns History page, unread count and actions
+ */
+export const useNoticeHistory = (query: NoticeHistoryQuery = {}) => {
+  const currentScope = useMessageQueueStore((state) => state.scope)
+  const scope = query.scope ?? currentScope
+
+  const [messages, setMessages] = useState<StoredMessage[]>([])
+  const [total, setTotal] = useState(0)
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  // Resubscribe only when the filters actually change
+  const queryKey = JSON.stringify({ ...query, scope })
+
+  useEffect(() => {
+    setLoading(true)
+
+    return observeHistory(JSON.parse(queryKey) as NoticeHistoryQuery, (page) => {
+      setMessages(page.messages)
+      setTotal(page.total)
+      setUnreadCount(page.unreadCount)
+      setLoading(false)
+    })
+  }, [queryKey])
+
+  const markAllAsReadInScope = useCallback(
+    async (type?: string) => {
+      await markAllAsRead(type, scope)
+    },
+    [scope]
+  )
+
+  const markAsReadInScope = useCallback((id: string) => markAsRead(id, scope), [scope])
+  const deleteMessageInScope = useCallback((id: string) => deleteMessage(id, scope), [scope])
+
+  return {
+    messages,
+    total,
+    unreadCount,
+    loading,
+    markAsRead: markAsReadInScope,
+    markAllAsRead: markAllAsReadInScope,
+    deleteMessage: deleteMessageInScope,
+  }
+}
@@ -0,0 +1,14 @@
+import { useMessageQueueStore, messageQueueSelectors } from '../stores/messageQueueStore'
+
+/**
+ * Hook to read and switch the user/account whose notices are active
+ * Switching keeps the previous account's queue (including open notices) in the database
+ * and restores the next account's queue
+ * @returns Current scope and switchScope function
+ */
+export const useNoticeScope = () => {
+  const scope = useMessageQueueStore(messageQueueSelectors.scope)
+  const switchScope = useMessageQueueStore((state) => state.switchScope)
+
+  return { scope, switchScope }
+}
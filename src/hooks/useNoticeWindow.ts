@@ -1,13 +1,15 @@
 import { useCallback } from 'react'
-import type { MessageType } from '../types/message'
+import type { MessageType, NoticeActionResult } from '../types/message'
 import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { waitForNoticeAction } from '../utils/noticeActions'
 
 /**
  * Hook to open notice windows
- * @returns Object with showNotice function
+ * @returns Object with showNotice, showNotices and showNoticeForResult functions
  */
 export const useNoticeWindow = () => {
   const enqueue = useMessageQueueStore((state) => state.enqueue)
+  const enqueueMany = useMessageQueueStore((state) => state.enqueueMany)
 
   const showNotice = useCallback(
     async (message: MessageType) => {
@@ -16,6 +18,23 @@ export const useNoticeWindow = () => {
     [enqueue]
   )
 
-  return { showNotice }
+  const showNotices = useCallback(
+    async (messages: MessageType[]) => {
+      await enqueueMany(messages)
+    },
+    [enqueueMany]
+  )
+
+  const showNoticeForResult = useCallback(
+    async (message: MessageType): Promise<NoticeActionResult | null> => {
+      // Register before enqueueing so a fast answer is not missed
+      const result = waitForNoticeAction(message.id)
+      await enqueue(message)
+      return await result
+    },
+    [enqueue]
+  )
+
+  return { showNotice, showNotices, showNoticeForResult }
 }
 
@@ -0,0 +1,23 @@
+import { useCallback } from 'react'
+import { snoozeMessage } from '../utils/db'
+import { closeNoticeWindow } from '../utils/noticeWindow'
+
+/**
+ * Hook to snooze the current notice window
+ * Should be called from within a notice window component
+ * @returns Object with snoozeNotice function
+ */
+export const useSnoozeNotice = () => {
+  const snoozeNotice = useCallback(async (durationMs: number) => {
+    const params = new URLSearchParams(window.location.search)
+    const messageId = params.get('id')
+    if (!messageId) return
+
+    // Persist the wake-up time first so the close is not treated as "shown"
+    const until = new Date(Date.now() + durationMs).toISOString()
+    await snoozeMessage(messageId, until, params.get('scope') ?? undefined)
+    await closeNoticeWindow(messageId)
+  }, [])
+
+  return { snoozeNotice }
+}
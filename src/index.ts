@@ -4,7 +4,44 @@
  */
 
 // Types
-export type { MessageType, StoredMessage, NoticeConfig, WindowPosition } from './types/message'
+export type {
+  MessageType,
+  MessagePriority,
+  DedupePolicy,
+  NoticeIndexConfig,
+  NoticeTypeConfig,
+  NoticeWindowOptions,
+  NoticeWindowRetryConfig,
+  QuietHoursRule,
+  StoredMessage,
+  NoticeConfig,
+  WindowPosition,
+  NoticeHistoryQuery,
+  NoticeHistoryPage,
+  NoticeAction,
+  NoticeActionResult,
+  NoticeEvent,
+  NoticeEventType,
+  NoticeLogger,
+  NoticeLogLevel,
+  NoticeLogContext,
+  NoticeLogEntry,
+} from './types/message'
+export type { NoticeStorage, NoticeHistorySnapshot } from './types/storage'
+export type {
+  NoticeWindowAdapter,
+  NoticeWindowHandle,
+  NoticeWindowCreateOptions,
+  NoticeMonitorArea,
+} from './types/windowAdapter'
+export type {
+  NoticeServerEvent,
+  NoticeAck,
+  NoticeSync,
+  NoticeSyncOptions,
+  NoticeSyncTransport,
+  NoticeSyncConnection,
+} from './types/sync'
 
 // Store
 import { useMessageQueueStore, messageQueueSelectors } from './stores/messageQueueStore'
@@ -16,12 +53,36 @@ export { useCloseNotice } from './hooks/useCloseNotice'
 export { useHideNotice } from './hooks/useHideNotice'
 export { useHideAllNotices } from './hooks/useHideAllNotices'
 export { useMessageQueue } from './hooks/useMessageQueue'
+export { useAutoClose } from './hooks/useAutoClose'
+export { useNoticeHistory } from './hooks/useNoticeHistory'
+export { useNoticeAction } from './hooks/useNoticeAction'
+export { useSnoozeNotice } from './hooks/useSnoozeNotice'
+export { useNoticeScope } from './hooks/useNoticeScope'
+export { useDoNotDisturb } from './hooks/useDoNotDisturb'
+export { useNoticeEvents } from './hooks/useNoticeEvents'
+export type { AutoCloseState } from './hooks/useAutoClose'
 
 // Components
 export { NoticeLayout } from './components/NoticeLayout'
+export { NoticeDragRegion, NoticeCloseButton } from './components/NoticeFrame'
 
 // Configuration
-export { setNoticeConfig, getNoticeConfig } from './config/noticeConfig'
+export {
+  setNoticeConfig,
+  getNoticeConfig,
+  resetNoticeConfig,
+  subscribeNoticeConfig,
+  validateNoticeConfig,
+  getNoticeTypeConfig,
+} from './config/noticeConfig'
+
+// Storage
+export { createDexieStorage } from './storage/dexieStorage'
+export { createMemoryStorage } from './storage/memoryStorage'
+export { DEFAULT_NOTICE_SCOPE } from './storage/query'
+
+// Window layer
+export { createTauriWindowAdapter } from './windows/tauriWindowAdapter'
 
 // Utils
 import { 
@@ -29,59 +90,80 @@ import {
   createNoticeWindow,
   closeNoticeWindow,
   closeAllNoticeWindows,
+  adoptNoticeWindows,
 } from './utils/noticeWindow'
 export { 
   initializeNoticeWindowSystem,
   createNoticeWindow,
   closeNoticeWindow,
   closeAllNoticeWindows,
+  adoptNoticeWindows,
 }
+import { startActivityTracker } from './utils/activityTracker'
+import {
+  getNoticeDebugLog,
+  clearNoticeDebugLog,
+  createConsoleLogger,
+} from './utils/logger'
+export { getNoticeDebugLog, clearNoticeDebugLog, createConsoleLogger }
+export { startActivityTracker }
+import { onNoticeAction, waitForNoticeAction } from './utils/noticeActions'
+export { onNoticeAction, waitForNoticeAction }
+import { onNoticeEvent } from './utils/noticeEvents'
+export { onNoticeEvent }
+import { isQueueOwner } from './utils/queueOwner'
+export { isQueueOwner }
 
 import { 
   initializeDatabase,
   saveMessage,
+  saveMessages,
   hasMessage,
+  updateMessage,
   getPendingMessages,
   getMessage,
   markAsShown,
   markAsHidden,
+  markAsExpired,
+  markAsFailed,
+  snoozeMessage,
   clearPendingMessages,
+  getMessageHistory,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteMessage,
 } from './utils/db'
 export { 
   initializeDatabase,
   saveMessage,
+  saveMessages,
   hasMessage,
+  updateMessage,
   getPendingMessages,
   getMessage,
   markAsShown,
   markAsHidden,
+  markAsExpired,
+  markAsFailed,
+  snoozeMessage,
   clearPendingMessages,
+  getMessageHistory,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteMessage,
 }
 
-/**
- * Initialize the complete notice window system
- * Call this once during app startup (e.g., in App.tsx or main layout)
- * 
- * @example
- * ```typescript
- * import { initializeNoticeSystem } from 'tauri-notice-window'
- * 
- * useEffect(() => {
- *   initializeNoticeSystem()
- * }, [])
- * ```
- */
-export const initializeNoticeSystem = async (): Promise<void> => {
-  // Initialize database
-  initializeDatabase()
-
-  // Set up window system (store subscription)
-  initializeNoticeWindowSystem()
-
-  // Load pending messages from database
-  const { initializeFromDatabase } = useMessageQueueStore.getState()
-  await initializeFromDatabase()
-
-  console.log('Tauri Notice System initialized')
-}
+// Setup
+export { initializeNoticeSystem } from './utils/noticeSystem'
 
+// Server sync
+export { createNoticeSync } from './utils/noticeSync'
+export { createWebSocketTransport } from './sync/webSocketTransport'
+export type { WebSocketTransportOptions } from './sync/webSocketTransport'
+export { createSseTransport } from './sync/sseTransport'
+export type { SseTransportOptions } from './sync/sseTransport'
+export { createPollingTransport } from './sync/pollingTransport'
+export type { PollingTransportOptions } from './sync/pollingTransport'
+export type { NoticeReconnectOptions } from './sync/transportHelpers'
@@ -0,0 +1,186 @@
+import Dexie, { liveQuery, type Table } from 'dexie'
+import type { StoredMessage, NoticeHistoryQuery, NoticeIndexConfig } from '../types/message'
+import type { NoticeStorage, NoticeHistorySnapshot } from '../types/storage'
+import {
+  DEFAULT_HISTORY_LIMIT,
+  PENDING_STATUSES,
+  CLEARABLE_STATUSES,
+  createHistoryFilter,
+} from './query'
+import { NOTICE_TABLE, noticeMigrations, toDexieVersion, withCustomIndexes } from './migrations'
+import { noticeLog } from '../utils/logger'
+
+/**
+ * Dexie database for message persistence
+ * Declares every library schema version so older databases are migrated in order
+ */
+class NoticeDatabase extends Dexie {
+  notices!: Table<StoredMessage, [string, string]>
+  meta!: Table<{ key: string; value: string }, string>
+
+  constructor(databaseName: string, customIndexes: NoticeIndexConfig) {
+    super(databaseName)
+
+    const latest = noticeMigrations[noticeMigrations.length - 1]
+    noticeMigrations.forEach((migration) => {
+      const isLatest = migration === latest
+      const stores = isLatest
+        ? {
+            ...migration.stores,
+            [NOTICE_TABLE]: withCustomIndexes(migration.stores[NOTICE_TABLE]!, customIndexes.fields),
+          }
+        : migration.stores
+
+      const version = this.version(
+        toDexieVersion(migration.version, isLatest ? customIndexes.version : 0)
+      ).stores(stores)
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade)
+      }
+    })
+  }
+}
+
+/**
+ * Identity of a stored row, for comparing rows of different scopes
+ */
+const rowKey = (message: StoredMessage): string => `${message.scope}\u0000${message.id}`
+
+/**
+ * Create a storage backend persisting to IndexedDB through Dexie
+ * All windows of the app share the same database and see each other's changes
+ * @param databaseName - IndexedDB database name
+ * @param customIndexes - Extra indexes on message fields (bump the version whenever the list changes)
+ * @returns Dexie-backed storage
+ */
+export const createDexieStorage = (
+  databaseName: string,
+  customIndexes: NoticeIndexConfig = { version: 0, fields: [] }
+): NoticeStorage => {
+  const db = new NoticeDatabase(databaseName, customIndexes)
+
+  // Fresh collection on every call, since paging mutates it
+  const historyCollection = (query: NoticeHistoryQuery) =>
+    db.notices.orderBy('timestamp').reverse().filter(createHistoryFilter(query))
+
+  const storage: NoticeStorage = {
+    saveMessage: async (message) => {
+      await db.notices.put(message)
+    },
+
+    addMessages: async (messages) => {
+      await db.transaction('rw', db.notices, async () => {
+        const existing = await db.notices.bulkGet(messages.map((m) => [m.scope, m.id]))
+        const stored = new Set(existing.filter(Boolean).map((m) => rowKey(m!)))
+
+        // First occurrence wins when the batch repeats an ID
+        const fresh = messages.filter((m) => {
+          if (stored.has(rowKey(m))) return false
+          stored.add(rowKey(m))
+          return true
+        })
+        await db.notices.bulkAdd(fresh)
+      })
+    },
+
+    transaction: (work) => db.transaction('rw', db.notices, db.meta, work),
+
+    getMeta: async (key) => {
+      return (await db.meta.get(key))?.value
+    },
+
+    setMeta: async (key, value) => {
+      await db.meta.put({ key, value })
+    },
+
+    getMessage: async (scope, id) => {
+      return await db.notices.get([scope, id])
+    },
+
+    hasMessage: async (scope, id) => {
+      return (await db.notices.where('[scope+id]').equals([scope, id]).count()) > 0
+    },
+
+    updateMessage: async (scope, id, changes) => {
+      const { id: _id, scope: _scope, ...rest } = changes
+      await db.notices.update([scope, id], rest)
+    },
+
+    deleteMessage: async (scope, id) => {
+      await db.notices.delete([scope, id])
+    },
+
+    getPendingMessages: async (scope) => {
+      return await db.notices
+        .where('[scope+queueStatus]')
+        .anyOf(PENDING_STATUSES.map((status) => [scope, status]))
+        .sortBy('queuePosition')
+    },
+
+    updateQueueStatus: async (scope, id, status) => {
+      await db.notices.update([scope, id], { queueStatus: status })
+    },
+
+    updateQueuePositions: async (scope, positions) => {
+      await db.transaction('rw', db.notices, async () => {
+        await db.notices.bulkUpdate(
+          positions.map((msg) => ({ key: [scope, msg.id], changes: { queuePosition: msg.position } }))
+        )
+      })
+    },
+
+    clearPendingMessages: async (scope) => {
+      if (scope === undefined) {
+        await db.notices.where('queueStatus').anyOf(CLEARABLE_STATUSES).delete()
+        return
+      }
+      await db.notices
+        .where('[scope+queueStatus]')
+        .anyOf(CLEARABLE_STATUSES.map((status) => [scope, status]))
+        .delete()
+    },
+
+    getMessageHistory: async (query) => {
+      const offset = query.offset ?? 0
+      const limit = query.limit ?? DEFAULT_HISTORY_LIMIT
+
+      const [messages, total] = await Promise.all([
+        historyCollection(query).offset(offset).limit(limit).toArray(),
+        historyCollection(query).count(),
+      ])
+      return { messages, total }
+    },
+
+    getUnreadCount: async (type, scope) => {
+      return await historyCollection({ type, scope, unreadOnly: true }).count()
+    },
+
+    markAllAsRead: async (type, scope) => {
+      await historyCollection({ type, scope, unreadOnly: true }).modify({ isRead: true })
+    },
+
+    observeMessage: (scope, id, callback) => {
+      const subscription = liveQuery(() => db.notices.get([scope, id])).subscribe({
+        next: callback,
+        error: (error) => noticeLog.error('Failed to observe message', { messageId: id, error }),
+      })
+      return () => subscription.unsubscribe()
+    },
+
+    observeHistory: (query, callback) => {
+      const subscription = liveQuery(async (): Promise<NoticeHistorySnapshot> => {
+        const [page, unreadCount] = await Promise.all([
+          storage.getMessageHistory(query),
+          storage.getUnreadCount(query.type, query.scope),
+        ])
+        return { ...page, unreadCount }
+      }).subscribe({
+        next: callback,
+        error: (error) => noticeLog.error('Failed to observe notice history', { error }),
+      })
+      return () => subscription.unsubscribe()
+    },
+  }
+
+  return storage
+}
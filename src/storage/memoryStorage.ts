@@ -0,0 +1,162 @@
+import type { StoredMessage, NoticeHistoryQuery } from '../types/message'
+import type { NoticeStorage, NoticeHistorySnapshot } from '../types/storage'
+import {
+  DEFAULT_HISTORY_LIMIT,
+  PENDING_STATUSES,
+  CLEARABLE_STATUSES,
+  createHistoryFilter,
+} from './query'
+import { noticeLog } from '../utils/logger'
+
+/**
+ * Map key of a message, unique across scopes
+ */
+const keyOf = (scope: string, id: string): string => `${scope}\u0000${id}`
+
+/**
+ * Create a storage backend that keeps messages in memory
+ * Nothing survives a reload and nothing is shared between windows,
+ * which makes it suited to tests and to apps that don't need persistence
+ * @param initialMessages - Messages to start with
+ * @returns In-memory storage
+ */
+export const createMemoryStorage = (initialMessages: StoredMessage[] = []): NoticeStorage => {
+  const messages = new Map<string, StoredMessage>(
+    initialMessages.map((m) => [keyOf(m.scope, m.id), { ...m }])
+  )
+  const meta = new Map<string, string>()
+  const listeners = new Set<() => void>()
+
+  // Run observers after every mutation
+  const notify = () => listeners.forEach((listener) => listener())
+
+  // History matches, newest first
+  const queryHistory = (query: NoticeHistoryQuery) =>
+    Array.from(messages.values())
+      .filter(createHistoryFilter(query))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  const watch = (run: () => Promise<void>) => {
+    const listener = () => {
+      run().catch((error) => noticeLog.error('Failed to observe notice storage', { error }))
+    }
+    listeners.add(listener)
+    listener()
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const storage: NoticeStorage = {
+    saveMessage: async (message) => {
+      messages.set(keyOf(message.scope, message.id), { ...message })
+      notify()
+    },
+
+    addMessages: async (newMessages) => {
+      newMessages.forEach((message) => {
+        const key = keyOf(message.scope, message.id)
+        if (!messages.has(key)) {
+          messages.set(key, { ...message })
+        }
+      })
+      notify()
+    },
+
+    getMeta: async (key) => {
+      return meta.get(key)
+    },
+
+    setMeta: async (key, value) => {
+      meta.set(key, value)
+    },
+
+    getMessage: async (scope, id) => {
+      const message = messages.get(keyOf(scope, id))
+      return message ? { ...message } : undefined
+    },
+
+    hasMessage: async (scope, id) => {
+      return messages.has(keyOf(scope, id))
+    },
+
+    updateMessage: async (scope, id, changes) => {
+      const key = keyOf(scope, id)
+      const message = messages.get(key)
+      if (!message) return
+      messages.set(key, { ...message, ...changes, id, scope })
+      notify()
+    },
+
+    deleteMessage: async (scope, id) => {
+      if (messages.delete(keyOf(scope, id))) notify()
+    },
+
+    getPendingMessages: async (scope) => {
+      return Array.from(messages.values())
+        .filter((m) => m.scope === scope && PENDING_STATUSES.includes(m.queueStatus))
+        .sort((a, b) => a.queuePosition - b.queuePosition)
+        .map((m) => ({ ...m }))
+    },
+
+    updateQueueStatus: async (scope, id, status) => {
+      await storage.updateMessage(scope, id, { queueStatus: status })
+    },
+
+    updateQueuePositions: async (scope, positions) => {
+      positions.forEach(({ id, position }) => {
+        const key = keyOf(scope, id)
+        const message = messages.get(key)
+        if (message) messages.set(key, { ...message, queuePosition: position })
+      })
+      notify()
+    },
+
+    clearPendingMessages: async (scope) => {
+      Array.from(messages.values())
+        .filter(
+          (m) =>
+            (scope === undefined || m.scope === scope) && CLEARABLE_STATUSES.includes(m.queueStatus)
+        )
+        .forEach((m) => messages.delete(keyOf(m.scope, m.id)))
+      notify()
+    },
+
+    getMessageHistory: async (query) => {
+      const offset = query.offset ?? 0
+      const limit = query.limit ?? DEFAULT_HISTORY_LIMIT
+      const matches = queryHistory(query)
+      return {
+        messages: matches.slice(offset, offset + limit).map((m) => ({ ...m })),
+        total: matches.length,
+      }
+    },
+
+    getUnreadCount: async (type, scope) => {
+      return queryHistory({ type, scope, unreadOnly: true }).length
+    },
+
+    markAllAsRead: async (type, scope) => {
+      queryHistory({ type, scope, unreadOnly: true }).forEach((m) =>
+        messages.set(keyOf(m.scope, m.id), { ...m, isRead: true })
+      )
+      notify()
+    },
+
+    observeMessage: (scope, id, callback) => {
+      return watch(async () => callback(await storage.getMessage(scope, id)))
+    },
+
+    observeHistory: (query, callback) => {
+      return watch(async () => {
+        const snapshot: NoticeHistorySnapshot = {
+          ...(await storage.getMessageHistory(query)),
+          unreadCount: await storage.getUnreadCount(query.type, query.scope),
+        }
+        callback(snapshot)
+      })
+    },
+  }
+
+  return storage
+}
@@ -0,0 +1,119 @@
+import type { Transaction } from 'dexie'
+import type { StoredMessage } from '../types/message'
+import { DEFAULT_NOTICE_SCOPE } from './query'
+
+/**
+ * One step of the library's own database schema
+ */
+export interface NoticeSchemaMigration {
+  /** Library schema version (1, 2, ...) */
+  version: number
+  /** Dexie store definitions for this version (null deletes a table) */
+  stores: Record<string, string | null>
+  /** Optional data migration run when upgrading to this version */
+  upgrade?: (transaction: Transaction) => Promise<unknown> | void
+}
+
+/**
+ * Index definition of the messages table, by library schema version
+ */
+const MESSAGE_INDEXES_V1 = 'id, queueStatus, queuePosition, timestamp'
+const MESSAGE_INDEXES_V2 = `${MESSAGE_INDEXES_V1}, type, dedupeKey`
+const MESSAGE_INDEXES_V3 = `${MESSAGE_INDEXES_V2}, scope, [scope+queueStatus]`
+
+/**
+ * Index definition of the notices table, keyed by scope and ID so accounts can't overwrite each other
+ */
+const NOTICE_INDEXES_V5 =
+  '[scope+id], id, queueStatus, queuePosition, timestamp, type, dedupeKey, scope, [scope+queueStatus]'
+
+/**
+ * Table holding the messages in the latest schema
+ */
+export const NOTICE_TABLE = 'notices'
+
+/**
+ * Library schema history, oldest first
+ * Never edit a released entry; append a new version instead
+ */
+export const noticeMigrations: NoticeSchemaMigration[] = [
+  {
+    version: 1,
+    stores: { messages: MESSAGE_INDEXES_V1 },
+  },
+  {
+    // Index type and dedupeKey, and backfill flags that very early rows may lack
+    version: 2,
+    stores: { messages: MESSAGE_INDEXES_V2 },
+    upgrade: (transaction) =>
+      transaction
+        .table<StoredMessage, string>('messages')
+        .toCollection()
+        .modify((message) => {
+          message.isRead = message.isRead ?? false
+          message.isShown = message.isShown ?? message.queueStatus === 'shown'
+        }),
+  },
+  {
+    // Per-user/account scopes; existing messages belong to the default scope
+    version: 3,
+    stores: { messages: MESSAGE_INDEXES_V3 },
+    upgrade: (transaction) =>
+      transaction
+        .table<StoredMessage, string>('messages')
+        .toCollection()
+        .modify((message) => {
+          message.scope = message.scope ?? DEFAULT_NOTICE_SCOPE
+        }),
+  },
+  {
+    // Key/value store for library bookkeeping such as the server sync cursor
+    version: 4,
+    stores: { messages: MESSAGE_INDEXES_V3, meta: 'key' },
+  },
+  {
+    // Key messages by scope and ID; IndexedDB can't change a primary key in place,
+    // so rows move to a new table here and the old one is dropped in the next version
+    version: 5,
+    stores: { messages: MESSAGE_INDEXES_V3, notices: NOTICE_INDEXES_V5, meta: 'key' },
+    upgrade: async (transaction) => {
+      const messages = await transaction.table<StoredMessage, string>('messages').toArray()
+      await transaction
+        .table<StoredMessage, [string, string]>(NOTICE_TABLE)
+        .bulkPut(messages.map((message) => ({ ...message, scope: message.scope ?? DEFAULT_NOTICE_SCOPE })))
+    },
+  },
+  {
+    version: 6,
+    stores: { messages: null, notices: NOTICE_INDEXES_V5, meta: 'key' },
+  },
+]
+
+/**
+ * Multiplier separating library versions from app index versions in the Dexie version number
+ */
+const APP_VERSION_RANGE = 1000
+
+/**
+ * Map a library schema version (plus the app's index version) to a Dexie version number
+ * Version 1 keeps its original number so databases created before migrations existed upgrade cleanly
+ * @param version - Library schema version
+ * @param appVersion - App index version, only applied to the latest library version
+ * @returns Dexie version number
+ */
+export const toDexieVersion = (version: number, appVersion = 0): number => {
+  if (version === 1 && appVersion === 0) return 1
+  return version * APP_VERSION_RANGE + appVersion
+}
+
+/**
+ * Append app-defined index paths to a store definition
+ * @param definition - Dexie store definition
+ * @param fields - Extra index paths (e.g. 'data.userId')
+ * @returns Combined store definition
+ */
+export const withCustomIndexes = (definition: string, fields: string[]): string => {
+  const existing = definition.split(',').map((index) => index.trim())
+  const extra = fields.filter((field) => field && !existing.includes(field))
+  return [...existing, ...extra].join(', ')
+}
@@ -0,0 +1,46 @@
+import type { StoredMessage, NoticeHistoryQuery } from '../types/message'
+
+/**
+ * Scope of messages saved without a user/account
+ */
+export const DEFAULT_NOTICE_SCOPE = 'default'
+
+/**
+ * Queue statuses that count as history by default
+ */
+export const HISTORY_STATUSES: StoredMessage['queueStatus'][] = ['shown', 'hidden', 'expired']
+
+/**
+ * Default page size for history queries
+ */
+export const DEFAULT_HISTORY_LIMIT = 20
+
+/**
+ * Queue statuses a message can be restored from on startup
+ * ('showing' rows are left over when the app quit or crashed with a notice open)
+ */
+export const PENDING_STATUSES: StoredMessage['queueStatus'][] = ['pending', 'snoozed', 'showing']
+
+/**
+ * Queue statuses removed by clearPendingMessages
+ */
+export const CLEARABLE_STATUSES: StoredMessage['queueStatus'][] = ['pending', 'snoozed', 'showing']
+
+/**
+ * Build a predicate for the status/type/read filters of a history query
+ * @param query - History filters
+ * @returns Predicate matching stored messages
+ */
+export const createHistoryFilter = (query: NoticeHistoryQuery) => {
+  const statuses = query.status
+    ? Array.isArray(query.status)
+      ? query.status
+      : [query.status]
+    : HISTORY_STATUSES
+
+  return (message: StoredMessage): boolean =>
+    statuses.includes(message.queueStatus) &&
+    (!query.type || message.type === query.type) &&
+    (!query.scope || message.scope === query.scope) &&
+    (!query.unreadOnly || !message.isRead)
+}
@@ -1,14 +1,121 @@
 import { create, StateCreator } from 'zustand'
 import { syncTabs } from 'zustand-sync'
-import type { MessageType } from '../types/message'
+import type { MessageType, StoredMessage } from '../types/message'
 import {
   getPendingMessages,
   saveMessage,
+  saveMessages,
+  runInTransaction,
   updateQueueStatus,
   clearPendingMessages,
   updateQueuePositions,
-  hasMessage,
+  markAsExpired,
+  deleteMessage,
+  updateMessage,
+  getMessage,
+  markAsHidden,
+  setActiveScopeResolver,
 } from '../utils/db'
+import {
+  insertByPriority,
+  shouldPreempt,
+  getLowestPriority,
+  meetsPriority,
+} from '../utils/priority'
+import { getNoticeConfig, applyTypeDefaults } from '../config/noticeConfig'
+import { isDue, isExpired } from '../utils/schedule'
+import { settleNoticeAction } from '../utils/noticeActions'
+import { emitNoticeEvent } from '../utils/noticeEvents'
+import { noticeLog } from '../utils/logger'
+import { isQueueOwner, sendNoticeCommand } from '../utils/queueOwner'
+import { DEFAULT_NOTICE_SCOPE } from '../storage/query'
+import { isInQuietHours } from '../utils/quietHours'
+
+/**
+ * Maximum number of notice windows allowed open at once
+ */
+const getMaxConcurrent = (): number => Math.max(1, getNoticeConfig().maxConcurrent)
+
+/**
+ * Check whether a message may break through Do Not Disturb
+ */
+const breaksThroughDnd = (message: MessageType): boolean => {
+  const threshold = getNoticeConfig().dndBreakthroughPriority
+  return threshold !== null && meetsPriority(message, threshold)
+}
+
+/**
+ * Check whether a newly queued message should take over from the lowest-priority showing notice
+ * A message held back by Do Not Disturb never does
+ * @param message - The new message
+ * @param showingMessages - Notices currently showing
+ * @param dndActive - Whether Do Not Disturb is on
+ */
+const takesOver = (
+  message: MessageType,
+  showingMessages: MessageType[],
+  dndActive: boolean
+): boolean =>
+  getNoticeConfig().preemption === 'requeue' &&
+  (!dndActive || breaksThroughDnd(message)) &&
+  shouldPreempt(message, getLowestPriority(showingMessages))
+
+/**
+ * Build a queue from stored rows
+ * Rows still marked 'showing' belong to notices that were open when the app quit or crashed;
+ * unless their window is still open they go back to the front of the queue as pending
+ * @param messages - Rows from getPendingMessages
+ * @param showingIds - Messages whose window is open and already showing
+ * @returns Queue ordered by priority
+ */
+const restoreQueue = async (messages: StoredMessage[], showingIds: string[]): Promise<MessageType[]> => {
+  const waiting = messages.filter((m) => !showingIds.includes(String(m.id)))
+  const orphaned = waiting.filter((m) => m.queueStatus === 'showing')
+  if (orphaned.length === 0) return waiting
+
+  noticeLog.info('Requeuing notices left open by the previous session', {
+    messageIds: orphaned.map((m) => m.id),
+  })
+  await Promise.all(orphaned.map((m) => updateQueueStatus(m.id, 'pending', m.scope)))
+
+  return [...orphaned]
+    .reverse()
+    .reduce(
+      (queue: MessageType[], message: MessageType) => insertByPriority(queue, message, true),
+      waiting.filter((m) => m.queueStatus !== 'showing')
+    )
+}
+
+/**
+ * Settles when the latest enqueue has finished
+ * Enqueues run one at a time so concurrent calls can't both pass the duplicate check
+ */
+let enqueueTail: Promise<void> = Promise.resolve()
+
+/**
+ * Find the queued message that would be shown next
+ * @param queue - Queue to search
+ * @param dndActive - Whether Do Not Disturb is holding messages back
+ * @returns Index of the message, or -1 if none is ready
+ */
+const findNextIndex = (queue: MessageType[], dndActive: boolean): number =>
+  queue.findIndex(
+    (m: MessageType) => isDue(m) && !isExpired(m) && (!dndActive || breaksThroughDnd(m))
+  )
+
+/**
+ * Wait for earlier enqueues to finish
+ * @returns Function that lets the next enqueue run
+ */
+const lockEnqueue = async (): Promise<() => void> => {
+  const previous = enqueueTail
+  let release = () => {}
+  enqueueTail = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  await previous
+  return release
+}
 
 /**
  * Message Queue Store State Interface
@@ -17,21 +124,47 @@ interface MessageQueueState {
   // State
   queue: MessageType[]
   currentMessage: MessageType | null
+  showingMessages: MessageType[]
   isProcessing: boolean
   initialized: boolean
   activeWindowIds: string[]
+  scope: string
+  doNotDisturb: boolean
+  dndActive: boolean
+  dndSuppressedIds: string[]
+  lastActivityAt: number
+  isAway: boolean
+  isPaused: boolean
 
   // Actions
   enqueue: (message: MessageType) => Promise<void>
+  enqueueMany: (messages: MessageType[]) => Promise<void>
   dequeue: () => MessageType | null
+  peek: () => MessageType | null
+  remove: (id: string) => Promise<void>
+  moveTo: (id: string, index: number) => Promise<void>
+  pause: () => Promise<void>
+  resume: () => Promise<void>
   showNext: () => Promise<void>
-  clearCurrent: () => void
+  preemptCurrent: () => Promise<void>
+  pruneExpired: () => Promise<void>
+  requeueMessage: (message: MessageType) => Promise<void>
+  replaceQueued: (id: string, message: MessageType) => Promise<void>
+  updateInPlace: (id: string, message: MessageType) => Promise<void>
+  hideMessage: (id: string) => Promise<void>
+  clearCurrent: (id?: string) => void
   setCurrentMessage: (message: MessageType | null) => void
   setIsProcessing: (processing: boolean) => void
+  /** Replace the queue in memory only; use remove/moveTo to keep the database in sync */
   setQueue: (queue: MessageType[]) => void
   initializeFromDatabase: () => Promise<void>
   persistQueue: () => Promise<void>
   clearOnLogout: () => Promise<void>
+  switchScope: (scope: string) => Promise<void>
+  setDoNotDisturb: (enabled: boolean) => Promise<void>
+  refreshDoNotDisturb: () => Promise<void>
+  reportActivity: () => Promise<void>
+  refreshAway: () => Promise<void>
   addActiveWindow: (id: string) => void
   removeActiveWindow: (id: string) => void
   isWindowActive: (id: string) => boolean
@@ -39,80 +172,419 @@ interface MessageQueueState {
 
 /**
  * Zustand store with zustand-sync for cross-window state management
+ * State is shared by every window, but only the queue owner (config.ownerLabel) changes the queue:
+ * in other windows the public actions forward a command to the owner and the engine actions do nothing
  */
 const storeCreator: StateCreator<MessageQueueState> = (set, get) => ({
       // Initial state
       queue: [],
       currentMessage: null,
+      showingMessages: [],
       isProcessing: false,
       initialized: false,
       activeWindowIds: [],
+      scope: DEFAULT_NOTICE_SCOPE,
+      doNotDisturb: false,
+      dndActive: false,
+      dndSuppressedIds: [],
+      lastActivityAt: Date.now(),
+      isAway: false,
+      isPaused: false,
 
       // Enqueue a new message
-      enqueue: async (message: MessageType) => {
-        const state = get()
-        
-        // Check if message already exists in database
-        const exists = await hasMessage(message.id)
-        if (!exists) {
-          await saveMessage(message)
+      enqueue: async (incoming: MessageType) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'enqueue', message: incoming })
+
+        // Wait for earlier enqueues so the duplicate check sees their messages
+        const release = await lockEnqueue()
+
+        try {
+          // Settings from the message type fill in anything the message leaves unset
+          const message = applyTypeDefaults(incoming)
+
+          // Anyone waiting on a message that never makes it into the queue gets null
+          const drop = () => settleNoticeAction(message.id, null)
+
+          // Drop messages that arrive already expired
+          if (isExpired(message)) return await drop()
+
+          // Apply the dedupe policy when the same id or dedupeKey is already queued or showing
+          const policy = message.dedupePolicy ?? getNoticeConfig().defaultDedupePolicy
+          const isDuplicate = (m: MessageType) =>
+            m.id === message.id || (!!message.dedupeKey && m.dedupeKey === message.dedupeKey)
+          const showingMatch = get().showingMessages.find(isDuplicate)
+          const queuedMatch = get().queue.find(isDuplicate)
+
+          if (showingMatch || queuedMatch) {
+            noticeLog.debug('Duplicate message', {
+              messageId: message.id,
+              existingId: (showingMatch ?? queuedMatch)?.id,
+              policy,
+            })
+          }
+
+          if (showingMatch && policy === 'update') {
+            await get().updateInPlace(showingMatch.id, message)
+            if (showingMatch.id !== message.id) await drop()
+            return
+          }
+          if (queuedMatch) {
+            if (policy !== 'ignore') {
+              await get().replaceQueued(queuedMatch.id, message)
+            } else if (queuedMatch.id !== message.id) {
+              await drop()
+            }
+            return
+          }
+          if (showingMatch && (policy === 'ignore' || showingMatch.id === message.id)) {
+            if (showingMatch.id !== message.id) await drop()
+            return
+          }
+
+          // Add to queue (ordered by priority), saving the message unless it is already stored
+          set({ queue: insertByPriority(get().queue, message) })
+          await runInTransaction(async () => {
+            await saveMessages([message], get().scope)
+            await get().persistQueue()
+          })
+          noticeLog.debug('Queued message', { messageId: message.id, queueLength: get().queue.length })
+          emitNoticeEvent('queued', message)
+
+          // Remember what piled up during Do Not Disturb for the summary
+          if (get().dndActive && !breaksThroughDnd(message)) {
+            set({ dndSuppressedIds: [...get().dndSuppressedIds, message.id] })
+          }
+
+          // Critical messages may take over from a lower-priority notice
+          const { showingMessages, dndActive } = get()
+          const atCapacity = showingMessages.length >= getMaxConcurrent()
+          if (atCapacity && takesOver(message, showingMessages, dndActive)) {
+            await get().preemptCurrent()
+            return
+          }
+
+          // Auto-show if there is room for another notice
+          if (!atCapacity) {
+            await get().showNext()
+          }
+        } finally {
+          release()
         }
+      },
 
-        // Add to queue if not already present
-        const alreadyInQueue = state.queue.some((m: MessageType) => m.id === message.id)
-        if (!alreadyInQueue) {
-          const newQueue = [...state.queue, message]
-          set({ queue: newQueue })
-          await get().persistQueue()
+      // Enqueue a batch of messages with one database write
+      enqueueMany: async (incoming: MessageType[]) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'enqueueMany', messages: incoming })
+
+        // Messages matching a queued or showing one go through enqueue for the dedupe policy
+        const duplicates: MessageType[] = []
+        const release = await lockEnqueue()
+
+        try {
+          const fresh: MessageType[] = []
+          const expired: MessageType[] = []
+          const { queue, showingMessages } = get()
+          const known = [...showingMessages, ...queue]
+
+          incoming
+            .map(applyTypeDefaults)
+            .forEach((message) => {
+              if (isExpired(message)) {
+                expired.push(message)
+                return
+              }
+              const isDuplicate = (m: MessageType) =>
+                m.id === message.id || (!!message.dedupeKey && m.dedupeKey === message.dedupeKey)
+              if (known.some(isDuplicate) || fresh.some(isDuplicate)) {
+                duplicates.push(message)
+              } else {
+                fresh.push(message)
+              }
+            })
+
+          // Messages that arrive already expired are dropped
+          await Promise.all(expired.map((m: MessageType) => settleNoticeAction(m.id, null)))
+          if (fresh.length === 0) return
+
+          set({
+            queue: fresh.reduce(
+              (next: MessageType[], message: MessageType) => insertByPriority(next, message),
+              get().queue
+            ),
+          })
+          await runInTransaction(async () => {
+            await saveMessages(fresh, get().scope)
+            await get().persistQueue()
+          })
+          noticeLog.debug('Queued messages', { count: fresh.length, queueLength: get().queue.length })
+          fresh.forEach((message) => emitNoticeEvent('queued', message))
+
+          // Remember what piled up during Do Not Disturb for the summary
+          if (get().dndActive) {
+            const suppressed = fresh.filter((m) => !breaksThroughDnd(m)).map((m) => m.id)
+            set({ dndSuppressedIds: [...get().dndSuppressedIds, ...suppressed] })
+          }
+
+          // The most urgent message of the batch may take over from a lower-priority notice
+          const current = get()
+          const atCapacity = current.showingMessages.length >= getMaxConcurrent()
+          if (
+            atCapacity &&
+            fresh.some((m) => takesOver(m, current.showingMessages, current.dndActive))
+          ) {
+            await get().preemptCurrent()
+          } else if (!atCapacity) {
+            await get().showNext()
+          }
+        } finally {
+          release()
         }
 
-        // Auto-show if not currently processing
-        if (!state.isProcessing && !state.currentMessage) {
-          await get().showNext()
+        for (const message of duplicates) {
+          await get().enqueue(message)
         }
       },
 
-      // Dequeue the next message
+      // Dequeue the first message that is due, leaving scheduled ones in place
       dequeue: () => {
         const state = get()
-        if (state.queue.length === 0) return null
+        const index = findNextIndex(state.queue, state.dndActive)
+        if (index === -1) return null
 
-        const [nextMessage, ...remainingQueue] = state.queue
-        set({ queue: remainingQueue })
+        const nextMessage = state.queue[index]
+        set({ queue: state.queue.filter((_: MessageType, i: number) => i !== index) })
         return nextMessage
       },
 
-      // Show the next message in queue
+      // Look at the message dequeue would return, without removing it
+      peek: () => {
+        const { queue, dndActive } = get()
+        const index = findNextIndex(queue, dndActive)
+        return index === -1 ? null : queue[index]
+      },
+
+      // Withdraw a queued message before it is shown
+      remove: async (id: string) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'remove', messageId: id })
+
+        const normalizedId = String(id)
+        const { queue, dndSuppressedIds } = get()
+        const message = queue.find((m: MessageType) => String(m.id) === normalizedId)
+        if (!message) return
+
+        set({
+          queue: queue.filter((m: MessageType) => m !== message),
+          dndSuppressedIds: dndSuppressedIds.filter((suppressedId) => suppressedId !== message.id),
+        })
+        await runInTransaction(async () => {
+          await updateQueueStatus(message.id, 'hidden')
+          await get().persistQueue()
+        })
+        noticeLog.debug('Removed queued message', { messageId: message.id })
+        emitNoticeEvent('hidden', message)
+
+        // Release anyone waiting on a result
+        await settleNoticeAction(message.id)
+      },
+
+      // Move a queued message to a new position (clamped to the queue)
+      moveTo: async (id: string, index: number) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'moveTo', messageId: id, index })
+
+        const { queue } = get()
+        const from = queue.findIndex((m: MessageType) => String(m.id) === String(id))
+        if (from === -1) return
+
+        const rest = queue.filter((_: MessageType, i: number) => i !== from)
+        const to = Math.min(Math.max(0, Math.floor(index)), rest.length)
+        set({ queue: [...rest.slice(0, to), queue[from], ...rest.slice(to)] })
+        await get().persistQueue()
+        noticeLog.debug('Moved queued message', { messageId: queue[from].id, from, to })
+      },
+
+      // Stop showing queued messages; open notices stay open
+      pause: async () => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'pause' })
+        set({ isPaused: true })
+        noticeLog.debug('Paused queue', { queueLength: get().queue.length })
+      },
+
+      // Continue showing queued messages
+      resume: async () => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'resume' })
+        if (!get().isPaused) return
+
+        set({ isPaused: false })
+        noticeLog.debug('Resumed queue', { queueLength: get().queue.length })
+        await get().showNext()
+      },
+
+      // Show queued messages until the concurrent window limit is reached
       showNext: async () => {
-        const state = get()
-        
-        // Skip if already processing
-        if (state.isProcessing) return
+        if (!isQueueOwner()) return
+        await get().pruneExpired()
 
-        const nextMessage = get().dequeue()
-        if (!nextMessage) {
+        // Hold everything while paused or until the user is back
+        if (get().isPaused || get().isAway) return
+
+        const shown: MessageType[] = []
+
+        while (get().showingMessages.length < getMaxConcurrent()) {
+          const nextMessage = get().dequeue()
+          if (!nextMessage) break
+
+          // Update state
+          set({
+            showingMessages: [...get().showingMessages, nextMessage],
+            currentMessage: nextMessage,
+            isProcessing: true,
+          })
+          shown.push(nextMessage)
+        }
+
+        if (get().showingMessages.length === 0) {
           set({ isProcessing: false, currentMessage: null })
-          return
         }
+        if (shown.length === 0) return
+        shown.forEach((message) => noticeLog.debug('Showing message', { messageId: message.id }))
+
+        // Update database status
+        await Promise.all(shown.map((message) => updateQueueStatus(message.id, 'showing')))
+        await get().persistQueue()
+      },
 
-        // Update state
+      // Put the lowest-priority showing message back in the queue and show the head of the queue instead
+      preemptCurrent: async () => {
+        if (!isQueueOwner()) return
+        const { showingMessages, queue, dndActive, isPaused, isAway } = get()
+        // Nothing new is shown while paused or away, so nothing may take over either
+        if (isPaused || isAway) return
+        const preempted = getLowestPriority(showingMessages)
+        if (!preempted) return
+
+        // Only a message that is due may take over, and only from a lower-priority notice
+        const index = findNextIndex(queue, dndActive)
+        if (index === -1 || !shouldPreempt(queue[index], preempted)) return
+
+        const nextMessage = queue[index]
+        const remainingQueue = queue.filter((_: MessageType, i: number) => i !== index)
         set({
+          queue: insertByPriority(remainingQueue, preempted, true),
+          showingMessages: [
+            ...showingMessages.filter((m: MessageType) => m.id !== preempted.id),
+            nextMessage,
+          ],
           currentMessage: nextMessage,
           isProcessing: true,
         })
 
-        // Update database status
+        noticeLog.debug('Preempted message', { messageId: preempted.id, by: nextMessage.id })
+
+        // The window system closes the preempted window once it sees it back in the queue
+        await updateQueueStatus(preempted.id, 'pending')
         await updateQueueStatus(nextMessage.id, 'showing')
         await get().persistQueue()
       },
 
-      // Clear current message and show next
-      clearCurrent: () => {
+      // Drop expired messages from the queue
+      pruneExpired: async () => {
+        if (!isQueueOwner()) return
+        const { queue } = get()
+        const now = Date.now()
+        const expired = queue.filter((m: MessageType) => isExpired(m, now))
+        if (expired.length === 0) return
+
+        set({ queue: get().queue.filter((m: MessageType) => !expired.includes(m)) })
+        await Promise.all(expired.map((m: MessageType) => markAsExpired(m.id)))
+        expired.forEach((m: MessageType) => {
+          noticeLog.debug('Expired queued message', { messageId: m.id })
+          emitNoticeEvent('expired', m)
+        })
+        await Promise.all(expired.map((m: MessageType) => settleNoticeAction(m.id)))
+        await get().persistQueue()
+      },
+
+      // Put a message back in the queue (e.g. after a snooze) at its priority position
+      requeueMessage: async (message: MessageType) => {
+        if (!isQueueOwner()) return
+        const { queue } = get()
+        if (queue.some((m: MessageType) => m.id === message.id)) return
+
+        set({ queue: insertByPriority(queue, message) })
+        noticeLog.debug('Requeued message', { messageId: message.id })
+        await get().persistQueue()
+      },
+
+      // Swap a queued message for a newer version, keeping its queue position
+      replaceQueued: async (id: string, message: MessageType) => {
+        const { queue } = get()
+        if (!queue.some((m: MessageType) => m.id === id)) return
+
+        set({ queue: queue.map((m: MessageType) => (m.id === id ? message : m)) })
+
+        // The old row would otherwise be reloaded as pending on the next start
+        if (id !== message.id) {
+          await deleteMessage(id)
+          await settleNoticeAction(id)
+        }
+        await saveMessage(message, get().scope)
+        await get().persistQueue()
+      },
+
+      // Push new content into a showing notice without reopening its window
+      updateInPlace: async (id: string, message: MessageType) => {
+        const updated: MessageType = { ...message, id }
+        const { showingMessages, currentMessage } = get()
+
         set({
-          currentMessage: null,
-          isProcessing: false,
+          showingMessages: showingMessages.map((m: MessageType) => (m.id === id ? updated : m)),
+          currentMessage: currentMessage?.id === id ? updated : currentMessage,
         })
 
+        // NoticeLayout watches the stored row and re-renders with the new data
+        await updateMessage(id, updated)
+      },
+
+      // Hide a queued or showing message (e.g. on a server request)
+      // The window system closes its window once it stops showing
+      hideMessage: async (id: string) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'hide', messageId: id })
+
+        const normalizedId = String(id)
+        const stored = await getMessage(normalizedId)
+        await markAsHidden(normalizedId)
+        if (stored && ['pending', 'showing', 'snoozed'].includes(stored.queueStatus)) {
+          emitNoticeEvent('hidden', stored)
+        }
+
+        const { queue, showingMessages } = get()
+        set({ queue: queue.filter((m: MessageType) => String(m.id) !== normalizedId) })
+        noticeLog.debug('Hid message', { messageId: normalizedId })
+
+        // Release anyone waiting on a result, even if it never got a window
+        await settleNoticeAction(normalizedId)
+
+        if (showingMessages.some((m: MessageType) => String(m.id) === normalizedId)) {
+          get().clearCurrent(normalizedId)
+        } else {
+          await get().persistQueue()
+        }
+      },
+
+      // Clear a showing message (the current one by default) and show next
+      clearCurrent: (id?: string) => {
+        if (!isQueueOwner()) return
+        const { showingMessages, currentMessage } = get()
+        const targetId = String(id ?? currentMessage?.id)
+        const remaining = showingMessages.filter((m: MessageType) => String(m.id) !== targetId)
+
+        set({
+          showingMessages: remaining,
+          currentMessage: remaining[remaining.length - 1] ?? null,
+          isProcessing: remaining.length > 0,
+        })
+        noticeLog.debug('Cleared showing message', { messageId: targetId })
+
         // Auto-show next message
         const state = get()
         if (state.queue.length > 0) {
@@ -122,7 +594,14 @@ const storeCreator: StateCreator<MessageQueueState> = (set, get) => ({
 
       // Set current message directly
       setCurrentMessage: (message: MessageType | null) => {
-        set({ currentMessage: message })
+        const { showingMessages } = get()
+        set({
+          currentMessage: message,
+          showingMessages:
+            message && !showingMessages.some((m: MessageType) => m.id === message.id)
+              ? [...showingMessages, message]
+              : showingMessages,
+        })
       },
 
       // Set processing flag
@@ -144,11 +623,15 @@ const storeCreator: StateCreator<MessageQueueState> = (set, get) => ({
 
         set({ initialized: true })
 
-        // Load pending messages from database
-        const pendingMessages = await getPendingMessages()
+        // Load pending messages of the current account from database,
+        // recovering notices left open by a crash (adopted windows keep showing)
+        const storedMessages = await getPendingMessages(get().scope)
+        const showingIds = get().showingMessages.map((m: MessageType) => String(m.id))
+        const pendingMessages = await restoreQueue(storedMessages, showingIds)
         
         if (pendingMessages.length > 0) {
           set({ queue: pendingMessages })
+          await get().persistQueue()
           
           // Auto-show first message
           await get().showNext()
@@ -157,6 +640,7 @@ const storeCreator: StateCreator<MessageQueueState> = (set, get) => ({
 
       // Persist queue to database
       persistQueue: async () => {
+        if (!isQueueOwner()) return
         const state = get()
         const positions = state.queue.map((msg: MessageType, index: number) => ({
           id: msg.id,
@@ -165,16 +649,155 @@ const storeCreator: StateCreator<MessageQueueState> = (set, get) => ({
         await updateQueuePositions(positions)
       },
 
-      // Clear all messages on logout
+      // Clear all messages of the current account on logout
       clearOnLogout: async () => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'clear' })
+
+        const { scope, queue, showingMessages } = get()
+        const cleared = [...showingMessages, ...queue]
+        // Rows go first, so the windows closed below don't mark their notices as shown
+        await clearPendingMessages(scope)
         set({
           queue: [],
           currentMessage: null,
+          showingMessages: [],
           isProcessing: false,
           activeWindowIds: [],
           initialized: false,
+          isPaused: false,
         })
-        await clearPendingMessages()
+        cleared.forEach((m: MessageType) => emitNoticeEvent('hidden', m))
+        await Promise.all(cleared.map((m: MessageType) => settleNoticeAction(m.id, null)))
+      },
+
+      // Turn manual Do Not Disturb on or off
+      setDoNotDisturb: async (enabled: boolean) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'setDoNotDisturb', enabled })
+
+        set({ doNotDisturb: enabled })
+        await get().refreshDoNotDisturb()
+      },
+
+      // Recompute whether Do Not Disturb is active (manual switch or quiet hours)
+      // and show the summary plus held notices when it ends
+      refreshDoNotDisturb: async () => {
+        if (!isQueueOwner()) return
+        const { doNotDisturb, dndActive } = get()
+        const config = getNoticeConfig()
+        const active = doNotDisturb || isInQuietHours(config.quietHours)
+        if (active === dndActive) return
+
+        set({ dndActive: active })
+        noticeLog.debug(active ? 'Do Not Disturb started' : 'Do Not Disturb ended')
+        if (active) return
+
+        // Summarize what arrived meanwhile and is still waiting
+        const { dndSuppressedIds, queue } = get()
+        const held = queue.filter((m: MessageType) => dndSuppressedIds.includes(m.id))
+        set({ dndSuppressedIds: [] })
+
+        if (held.length > 0 && config.dndSummaryType) {
+          const summary: MessageType = {
+            id: `dnd-summary-${Date.now()}`,
+            title: `${held.length} notice${held.length === 1 ? '' : 's'} arrived while Do Not Disturb was on`,
+            type: config.dndSummaryType,
+            data: {
+              count: held.length,
+              messages: held.map((m: MessageType) => ({ id: m.id, title: m.title, type: m.type })),
+            },
+            priority: 'high',
+          }
+          await saveMessage(summary, get().scope)
+          set({ queue: insertByPriority(get().queue, summary, true) })
+          await get().persistQueue()
+        }
+
+        await get().showNext()
+      },
+
+      // Record user activity from any window and resume showing if the user was away
+      reportActivity: async () => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'activity' })
+
+        const wasAway = get().isAway
+        set({ lastActivityAt: Date.now(), isAway: false })
+        if (wasAway) {
+          noticeLog.debug('User returned')
+          await get().showNext()
+        }
+      },
+
+      // Mark the user away once idleTimeoutMs passes without activity,
+      // and pull notices that need attention back into the queue
+      refreshAway: async () => {
+        if (!isQueueOwner()) return
+        const { idleTimeoutMs } = getNoticeConfig()
+        const { isAway, lastActivityAt } = get()
+
+        if (idleTimeoutMs <= 0) {
+          if (isAway) await get().reportActivity()
+          return
+        }
+        if (isAway || Date.now() - lastActivityAt < idleTimeoutMs) return
+
+        set({ isAway: true })
+        noticeLog.debug('User away', { idleTimeoutMs })
+
+        const unattended = get().showingMessages.filter((m: MessageType) => m.requireAttention)
+        if (unattended.length === 0) return
+
+        let queue = get().queue
+        for (const message of [...unattended].reverse()) {
+          queue = insertByPriority(queue, message, true)
+        }
+        const showingMessages = get().showingMessages.filter((m: MessageType) => !m.requireAttention)
+        set({
+          queue,
+          showingMessages,
+          currentMessage: showingMessages[showingMessages.length - 1] ?? null,
+          isProcessing: showingMessages.length > 0,
+        })
+
+        // The window system closes these windows once it sees them back in the queue
+        await Promise.all(unattended.map((m: MessageType) => updateQueueStatus(m.id, 'pending')))
+        await get().persistQueue()
+      },
+
+      // Put the current account's notices away and load another account's queue
+      switchScope: async (scope: string) => {
+        if (!isQueueOwner()) return sendNoticeCommand({ type: 'switchScope', scope })
+
+        const { scope: previousScope, showingMessages } = get()
+        if (scope === previousScope) return
+        noticeLog.debug('Switching scope', { from: previousScope, to: scope })
+
+        // Showing notices go back to the front of the saved queue
+        const savedQueue = [...showingMessages]
+          .reverse()
+          .reduce(
+            (queue: MessageType[], message: MessageType) => insertByPriority(queue, message, true),
+            get().queue
+          )
+        set({ queue: savedQueue })
+        await Promise.all(
+          showingMessages.map((m: MessageType) => updateQueueStatus(m.id, 'pending'))
+        )
+        await get().persistQueue()
+
+        // The window system closes windows that are no longer showing
+        set({
+          scope,
+          queue: [],
+          currentMessage: null,
+          showingMessages: [],
+          isProcessing: false,
+        })
+
+        const pendingMessages = await restoreQueue(await getPendingMessages(scope), [])
+        if (get().scope !== scope) return
+
+        set({ queue: pendingMessages })
+        await get().showNext()
       },
 
       // Add active window ID
@@ -209,13 +832,23 @@ export const useMessageQueueStore = create<MessageQueueState>()(
   })
 )
 
+// Lookups by ID that don't name a scope use the current account's
+setActiveScopeResolver(() => useMessageQueueStore.getState().scope)
+
 /**
  * Selectors for optimized subscriptions
  */
 export const messageQueueSelectors = {
   queueLength: (state: MessageQueueState) => state.queue.length,
   currentMessage: (state: MessageQueueState) => state.currentMessage,
+  showingMessages: (state: MessageQueueState) => state.showingMessages,
   isProcessing: (state: MessageQueueState) => state.isProcessing,
   queue: (state: MessageQueueState) => state.queue,
+  scope: (state: MessageQueueState) => state.scope,
+  doNotDisturb: (state: MessageQueueState) => state.doNotDisturb,
+  dndActive: (state: MessageQueueState) => state.dndActive,
+  dndSuppressedCount: (state: MessageQueueState) => state.dndSuppressedIds.length,
+  isAway: (state: MessageQueueState) => state.isAway,
+  isPaused: (state: MessageQueueState) => state.isPaused,
 }
 
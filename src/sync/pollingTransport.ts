@@ -0,0 +1,92 @@
+import type { NoticeServerEvent, NoticeSyncConnection, NoticeSyncTransport } from '../types/sync'
+import {
+  createReconnector,
+  postAck,
+  toServerEvent,
+  withCursor,
+  type NoticeReconnectOptions,
+} from './transportHelpers'
+
+/**
+ * Options for createPollingTransport
+ */
+export interface PollingTransportOptions extends NoticeReconnectOptions {
+  /** Feed URL fetched with GET; the resume cursor is added as the `cursor` query parameter */
+  url: string
+  /** Endpoint receipts are POSTed to as JSON ({ type, messageId }); no receipts are sent when omitted */
+  ackUrl?: string
+  /** Extra headers for every request (e.g. Authorization) */
+  headers?: Record<string, string>
+  /** Time between polls in ms (default: 30000) */
+  intervalMs?: number
+}
+
+/**
+ * Create a transport that fetches new events on an interval
+ * The feed answers with a JSON array of NoticeServerEvents, or an object with an `events` array;
+ * failed polls are retried with the reconnect delays instead of the interval
+ * @param options - Feed URL, receipt endpoint and timing
+ * @returns Polling transport
+ */
+export const createPollingTransport = (options: PollingTransportOptions): NoticeSyncTransport => {
+  const intervalMs = options.intervalMs ?? 30000
+  const reconnector = createReconnector(options)
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let controller: AbortController | null = null
+  let connection: NoticeSyncConnection | null = null
+
+  const fetchEvents = async (current: NoticeSyncConnection, signal: AbortSignal) => {
+    const response = await fetch(withCursor(options.url, current.getCursor()), {
+      headers: options.headers,
+      signal,
+    })
+    if (!response.ok) {
+      throw new Error(`Notice feed answered with status ${response.status}`)
+    }
+    const body: unknown = await response.json()
+    const events: unknown[] = Array.isArray(body) ? body : ((body as { events?: unknown[] })?.events ?? [])
+    return events.map(toServerEvent).filter((event): event is NoticeServerEvent => event !== null)
+  }
+
+  const poll = async () => {
+    if (!connection) return
+    const current = connection
+    controller = new AbortController()
+    const { signal } = controller
+
+    try {
+      // Handed over together, so the sync can enqueue a backlog of notices as one batch
+      const events = await fetchEvents(current, signal)
+      if (signal.aborted) return
+      await Promise.all(events.map((event) => current.onEvent(event)))
+      reconnector.reset()
+      if (connection === current) timer = setTimeout(poll, intervalMs)
+    } catch (error) {
+      if (signal.aborted) return
+      current.onError(error)
+      if (connection === current) reconnector.schedule(poll)
+    }
+  }
+
+  return {
+    connect: (next) => {
+      connection = next
+      void poll()
+    },
+
+    disconnect: () => {
+      connection = null
+      if (timer) clearTimeout(timer)
+      timer = null
+      reconnector.cancel()
+      controller?.abort()
+      controller = null
+    },
+
+    acknowledge: async (ack) => {
+      if (options.ackUrl) {
+        await postAck(options.ackUrl, ack, options.headers)
+      }
+    },
+  }
+}
@@ -0,0 +1,92 @@
+import type { NoticeSyncConnection, NoticeSyncTransport } from '../types/sync'
+import {
+  createReconnector,
+  postAck,
+  toServerEvent,
+  withCursor,
+  type NoticeReconnectOptions,
+} from './transportHelpers'
+
+/**
+ * Options for createSseTransport
+ */
+export interface SseTransportOptions extends NoticeReconnectOptions {
+  /** Event stream URL; the resume cursor is added as the `cursor` query parameter */
+  url: string
+  /** Endpoint receipts are POSTed to as JSON ({ type, messageId }); no receipts are sent when omitted */
+  ackUrl?: string
+  /** Extra headers for receipt requests (EventSource itself can't send headers) */
+  headers?: Record<string, string>
+  /** Send cookies with the event stream request */
+  withCredentials?: boolean
+}
+
+/**
+ * Create a transport that receives events from a Server-Sent Events stream
+ * The data of every message is one JSON NoticeServerEvent; an event's `id:` serves as its cursor
+ * when the payload has none, so the browser's own Last-Event-ID resume keeps working
+ * @param options - Stream URL, receipt endpoint and reconnect delays
+ * @returns Server-Sent Events transport
+ */
+export const createSseTransport = (options: SseTransportOptions): NoticeSyncTransport => {
+  const reconnector = createReconnector(options)
+  let source: EventSource | null = null
+  let connection: NoticeSyncConnection | null = null
+
+  const open = () => {
+    if (!connection) return
+    const current = connection
+    const stream = new EventSource(withCursor(options.url, current.getCursor()), {
+      withCredentials: options.withCredentials ?? false,
+    })
+    source = stream
+
+    stream.onopen = () => reconnector.reset()
+    stream.onmessage = (event) => {
+      let parsed: unknown = null
+      try {
+        parsed = JSON.parse(event.data)
+      } catch {
+        // Reported below as an unknown event
+      }
+      const serverEvent = toServerEvent(parsed)
+      if (!serverEvent) {
+        current.onError(new Error(`Unknown notice server event: ${event.data}`))
+        return
+      }
+      void current.onEvent({
+        ...serverEvent,
+        cursor: serverEvent.cursor ?? (event.lastEventId || undefined),
+      })
+    }
+    stream.onerror = () => {
+      current.onError(new Error(`Event stream error on ${options.url}`))
+
+      // EventSource retries by itself unless the server refused the stream
+      if (stream.readyState === EventSource.CLOSED && source === stream) {
+        source = null
+        reconnector.schedule(open)
+      }
+    }
+  }
+
+  return {
+    connect: (next) => {
+      connection = next
+      open()
+    },
+
+    disconnect: () => {
+      connection = null
+      reconnector.cancel()
+      source?.close()
+      source = null
+    },
+
+    acknowledge: async (ack) => {
+      if (options.ackUrl) {
+        await postAck(options.ackUrl, ack, options.headers)
+      }
+    },
+  }
+}
@@ -0,0 +1,95 @@
+import type { NoticeServerEvent, NoticeAck } from '../types/sync'
+
+/**
+ * Event types a server may send
+ */
+const SERVER_EVENT_TYPES: NoticeServerEvent['type'][] = ['notice', 'update', 'hide', 'hideAll']
+
+/**
+ * Reconnect delays shared by the built-in transports
+ */
+export interface NoticeReconnectOptions {
+  /** Delay before the first reconnect attempt in ms (default: 1000) */
+  reconnectDelayMs?: number
+  /** Upper bound for the doubling delay in ms (default: 30000) */
+  maxReconnectDelayMs?: number
+}
+
+/**
+ * Add the resume cursor to a server URL as the `cursor` query parameter
+ * @param url - Server URL
+ * @param cursor - Last cursor handled, or null to start from the beginning
+ * @returns URL to connect to
+ */
+export const withCursor = (url: string, cursor: string | null): string => {
+  if (cursor === null) return url
+  const separator = url.includes('?') ? '&' : '?'
+  return `${url}${separator}cursor=${encodeURIComponent(cursor)}`
+}
+
+/**
+ * Check that a value received from the server is a notice event
+ * @param value - Parsed JSON
+ * @returns The event, or null if it isn't one
+ */
+export const toServerEvent = (value: unknown): NoticeServerEvent | null => {
+  if (!value || typeof value !== 'object') return null
+  const type = (value as { type?: unknown }).type
+  return SERVER_EVENT_TYPES.includes(type as NoticeServerEvent['type'])
+    ? (value as NoticeServerEvent)
+    : null
+}
+
+/**
+ * Post a receipt to an HTTP endpoint as JSON ({ type, messageId })
+ * @param url - Receipt endpoint
+ * @param ack - The receipt
+ * @param headers - Extra request headers
+ */
+export const postAck = async (
+  url: string,
+  ack: NoticeAck,
+  headers: Record<string, string> = {}
+): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(ack),
+  })
+  if (!response.ok) {
+    throw new Error(`Notice receipt rejected with status ${response.status}`)
+  }
+}
+
+/**
+ * Schedule reconnect attempts with a doubling delay
+ * @param options - Reconnect delays
+ * @returns schedule(run) to try again later, reset() after a successful connect, cancel() on disconnect
+ */
+export const createReconnector = ({
+  reconnectDelayMs = 1000,
+  maxReconnectDelayMs = 30000,
+}: NoticeReconnectOptions) => {
+  let delay = reconnectDelayMs
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer)
+    timer = null
+  }
+
+  return {
+    schedule: (run: () => void) => {
+      cancel()
+      timer = setTimeout(() => {
+        timer = null
+        run()
+      }, delay)
+      delay = Math.min(delay * 2, maxReconnectDelayMs)
+    },
+    reset: () => {
+      delay = reconnectDelayMs
+    },
+    cancel,
+  }
+}
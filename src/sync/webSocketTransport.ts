@@ -0,0 +1,92 @@
+import type { NoticeAck, NoticeSyncConnection, NoticeSyncTransport } from '../types/sync'
+import {
+  createReconnector,
+  toServerEvent,
+  withCursor,
+  type NoticeReconnectOptions,
+} from './transportHelpers'
+
+/**
+ * Options for createWebSocketTransport
+ */
+export interface WebSocketTransportOptions extends NoticeReconnectOptions {
+  /** Server URL (ws:// or wss://); the resume cursor is added as the `cursor` query parameter */
+  url: string
+  /** WebSocket subprotocols */
+  protocols?: string | string[]
+}
+
+/**
+ * Create a transport that receives events over a WebSocket
+ * Every text frame from the server is one JSON NoticeServerEvent; receipts go back over the same
+ * socket as { type: 'ack', ack: 'delivered' | 'read', messageId }, held until the socket is open
+ * @param options - Server URL and reconnect delays
+ * @returns WebSocket transport
+ */
+export const createWebSocketTransport = (options: WebSocketTransportOptions): NoticeSyncTransport => {
+  const reconnector = createReconnector(options)
+  const pendingAcks: NoticeAck[] = []
+  let socket: WebSocket | null = null
+  let connection: NoticeSyncConnection | null = null
+
+  const sendAck = (ack: NoticeAck) => {
+    socket!.send(JSON.stringify({ type: 'ack', ack: ack.type, messageId: ack.messageId }))
+  }
+
+  const open = () => {
+    if (!connection) return
+    const current = connection
+    const ws = new WebSocket(withCursor(options.url, current.getCursor()), options.protocols)
+    socket = ws
+
+    ws.onopen = () => {
+      reconnector.reset()
+      pendingAcks.splice(0).forEach(sendAck)
+    }
+    ws.onmessage = (event) => {
+      let parsed: unknown = null
+      try {
+        parsed = JSON.parse(String(event.data))
+      } catch {
+        // Reported below as an unknown event
+      }
+      const serverEvent = toServerEvent(parsed)
+      if (!serverEvent) {
+        current.onError(new Error(`Unknown notice server event: ${String(event.data)}`))
+        return
+      }
+      void current.onEvent(serverEvent)
+    }
+    ws.onerror = () => {
+      current.onError(new Error(`WebSocket error on ${options.url}`))
+    }
+    ws.onclose = () => {
+      if (socket !== ws) return
+      socket = null
+      if (connection) reconnector.schedule(open)
+    }
+  }
+
+  return {
+    connect: (next) => {
+      connection = next
+      open()
+    },
+
+    disconnect: () => {
+      connection = null
+      reconnector.cancel()
+      const ws = socket
+      socket = null
+      ws?.close()
+    },
+
+    acknowledge: async (ack) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        sendAck(ack)
+      } else {
+        pendingAcks.push(ack)
+      }
+    },
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Test helpers, published as 'tauri-notice-window/testing' so they stay out of app bundles
+ */
+export { createFakeWindowAdapter } from './windows/fakeWindowAdapter'
+export type {
+  FakeWindowAdapter,
+  FakeWindowAdapterOptions,
+  FakeNoticeWindow,
+  FakeWindowContext,
+} from './windows/fakeWindowAdapter'
+export { createTestNoticeSystem } from './utils/testNoticeSystem'
+export type { TestNoticeSystem } from './utils/testNoticeSystem'
@@ -1,3 +1,7 @@
+import type { WindowOptions } from '@tauri-apps/api/window'
+import type { NoticeStorage } from './storage'
+import type { NoticeWindowAdapter } from './windowAdapter'
+
 /**
  * Window position configuration
  */
@@ -10,8 +14,112 @@ export interface WindowPosition {
   position?: 'right-bottom' | 'right-top' | 'left-bottom' | 'left-top' | 'center'
   /** Padding from screen edges in pixels (default: 20) */
   padding?: number
+  /**
+   * Monitor to place the window on (default: 'primary'):
+   * 'primary', 'current' (where the main window is), 'cursor', or an index into the monitor list.
+   * When set, custom x/y coordinates are relative to that monitor's work area
+   */
+  monitor?: 'primary' | 'current' | 'cursor' | number
+}
+
+/**
+ * Message priority level, from least to most urgent
+ */
+export type MessagePriority = 'low' | 'normal' | 'high' | 'critical'
+
+/**
+ * What to do when a message arrives with the same id or dedupeKey as one already queued or showing:
+ * - 'ignore': keep the existing message and drop the new one
+ * - 'replace': swap the queued message for the new one, keeping its place in the queue
+ * - 'update': like 'replace', and also push the new content into an open window
+ */
+export type DedupePolicy = 'ignore' | 'replace' | 'update'
+
+/**
+ * A button offered by a notice window
+ */
+export interface NoticeAction {
+  /** Identifier reported back when the action is taken */
+  id: string
+  /** Button label */
+  label: string
+  /** Visual hint for the notice template */
+  variant?: 'primary' | 'secondary' | 'danger'
+  /** Close the window after the action is taken (default: true) */
+  closeOnAction?: boolean
+}
+
+/**
+ * The action a user took on a notice
+ */
+export interface NoticeActionResult {
+  /** ID of the message the action belongs to */
+  messageId: string
+  /** ID of the chosen action */
+  actionId: string
+  /** Optional extra data from the notice window (e.g. a chosen snooze duration) */
+  payload?: any
+  /** ISO timestamp when the action was taken */
+  timestamp: string
+}
+
+/**
+ * Lifecycle events of a notice:
+ * - 'queued': accepted into the queue
+ * - 'shown': its window was opened
+ * - 'closed': its window was closed after being shown
+ * - 'hidden': hidden programmatically (e.g. by the server)
+ * - 'expired': dropped or closed because expiresAt passed
+ * - 'failed': its window could not be opened
+ * - 'actionTaken': the user chose one of its actions
+ */
+export type NoticeEventType =
+  | 'queued'
+  | 'shown'
+  | 'closed'
+  | 'hidden'
+  | 'expired'
+  | 'failed'
+  | 'actionTaken'
+
+/**
+ * A notice lifecycle event, delivered to listeners in every window
+ */
+export interface NoticeEvent {
+  /** What happened */
+  type: NoticeEventType
+  /** The message concerned */
+  message: MessageType
+  /** Epoch milliseconds when the event happened */
+  timestamp: number
+  /** How long the notice had been showing, when known (closed, hidden, expired, actionTaken) */
+  durationMs?: number
+  /** The chosen action (actionTaken) */
+  action?: NoticeActionResult
+  /** Why the window could not be opened (failed) */
+  error?: string
+  /** Label of the window that emitted the event */
+  source: string
 }
 
+/**
+ * A request from another window to the window that owns the queue
+ */
+export type NoticeCommand =
+  | { type: 'enqueue'; message: MessageType }
+  | { type: 'enqueueMany'; messages: MessageType[] }
+  | { type: 'close'; messageId: string }
+  | { type: 'hide'; messageId: string }
+  | { type: 'remove'; messageId: string }
+  | { type: 'moveTo'; messageId: string; index: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'action'; result: NoticeActionResult }
+  | { type: 'activity' }
+  | { type: 'setDoNotDisturb'; enabled: boolean }
+  | { type: 'switchScope'; scope: string }
+  | { type: 'clear' }
+
 /**
  * Core message interface for notice windows
  */
@@ -30,6 +138,27 @@ export interface MessageType {
   min_height?: number
   /** Window position configuration (default: right-bottom with 20px padding) */
   windowPosition?: WindowPosition
+  /** Queue priority (default: 'normal'). Higher priorities are shown first */
+  priority?: MessagePriority
+  /** ISO timestamp after which the message is dropped, and its window closed if open */
+  expiresAt?: string
+  /** ISO timestamp before which the message is held in the queue */
+  showAt?: string
+  /** Close the window automatically after this many milliseconds (0 disables, default: config.defaultAutoCloseMs) */
+  autoCloseMs?: number
+  /** Buttons the notice window offers; results are reported back to the main window */
+  actions?: NoticeAction[]
+  /** Logical key shared by versions of the same notice (e.g. one download's progress updates) */
+  dedupeKey?: string
+  /** How a duplicate id or dedupeKey is handled (default: config.defaultDedupePolicy) */
+  dedupePolicy?: DedupePolicy
+  /** Native window settings, merged over the type and config defaults */
+  windowOptions?: NoticeWindowOptions
+  /**
+   * Only count the notice as shown if the user was present: if they go idle while it is open,
+   * the window is closed and the notice is shown again when they return (requires config.idleTimeoutMs)
+   */
+  requireAttention?: boolean
 }
 
 /**
@@ -43,9 +172,179 @@ export interface StoredMessage extends MessageType {
   /** Whether the message has been shown */
   isShown: boolean
   /** Current queue status */
-  queueStatus: 'pending' | 'showing' | 'shown' | 'hidden'
+  queueStatus: 'pending' | 'showing' | 'shown' | 'hidden' | 'expired' | 'snoozed' | 'failed'
   /** Position in the queue (0-based) */
   queuePosition: number
+  /** The action the user took, if any */
+  actionResult?: NoticeActionResult
+  /** ISO timestamp when a snoozed message comes back */
+  snoozedUntil?: string
+  /** User/account the message belongs to (default: 'default') */
+  scope: string
+  /** Last error when the window could not be opened (queueStatus 'failed') */
+  failureReason?: string
+}
+
+/**
+ * Filters and paging for notice history queries
+ */
+export interface NoticeHistoryQuery {
+  /** Queue status(es) to include (default: 'shown', 'hidden' and 'expired') */
+  status?: StoredMessage['queueStatus'] | StoredMessage['queueStatus'][]
+  /** Only include messages of this type */
+  type?: string
+  /** Only include messages of this user/account (all accounts when omitted) */
+  scope?: string
+  /** Only include unread messages */
+  unreadOnly?: boolean
+  /** Number of messages to skip (default: 0) */
+  offset?: number
+  /** Maximum number of messages to return (default: 20) */
+  limit?: number
+}
+
+/**
+ * A page of notice history, newest first
+ */
+export interface NoticeHistoryPage {
+  /** Messages on this page */
+  messages: StoredMessage[]
+  /** Total number of messages matching the filters */
+  total: number
+}
+
+/**
+ * Native window settings for notice windows, passed through to the Tauri WebviewWindow
+ * Size, position, URL and title are managed by the library and can't be set here
+ */
+export interface NoticeWindowOptions
+  extends Pick<
+    WindowOptions,
+    | 'transparent'
+    | 'shadow'
+    | 'focus'
+    | 'focusable'
+    | 'maxWidth'
+    | 'maxHeight'
+    | 'visibleOnAllWorkspaces'
+    | 'contentProtected'
+    | 'alwaysOnBottom'
+    | 'minimizable'
+    | 'maximizable'
+    | 'closable'
+    | 'theme'
+    | 'titleBarStyle'
+    | 'hiddenTitle'
+    | 'backgroundColor'
+    | 'windowEffects'
+  > {
+  /** Keep the window above others (default: true) */
+  alwaysOnTop?: boolean
+  /** Show the native title bar and borders; false makes a frameless window (default: true) */
+  decorations?: boolean
+  /** Let the user resize the window (default: true) */
+  resizable?: boolean
+  /** Hide the window from the taskbar (default: false) */
+  skipTaskbar?: boolean
+}
+
+/**
+ * Settings shared by every message of one type
+ * Message fields take precedence over these
+ */
+export interface NoticeTypeConfig {
+  /** Window width (message: min_width) */
+  width?: number
+  /** Window height (message: min_height) */
+  height?: number
+  /** Window position */
+  windowPosition?: WindowPosition
+  /** Queue priority */
+  priority?: MessagePriority
+  /** Auto-close delay in milliseconds */
+  autoCloseMs?: number
+  /** Dedupe policy */
+  dedupePolicy?: DedupePolicy
+  /** Native window settings */
+  windowOptions?: NoticeWindowOptions
+  /** Re-show notices the user was away for */
+  requireAttention?: boolean
+}
+
+/**
+ * A recurring period during which Do Not Disturb is on
+ */
+export interface QuietHoursRule {
+  /** Start time, 'HH:MM' in local time */
+  start: string
+  /** End time, 'HH:MM' in local time; before start means the period runs past midnight */
+  end: string
+  /** Weekdays the period starts on, 0 = Sunday (default: every day) */
+  days?: number[]
+}
+
+/**
+ * Retry policy for opening notice windows
+ */
+export interface NoticeWindowRetryConfig {
+  /** Total number of attempts before the message is marked 'failed' (default: 3) */
+  attempts: number
+  /** Delay before the first retry in milliseconds (default: 500) */
+  delayMs: number
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor: number
+  /** How long to wait for Tauri to confirm a window in milliseconds (default: 10000) */
+  timeoutMs: number
+}
+
+/**
+ * Extra database indexes defined by the app
+ */
+export interface NoticeIndexConfig {
+  /** App index version; increase it every time `fields` changes (0 = no custom indexes) */
+  version: number
+  /** Index paths, e.g. 'data.userId' or '[type+data.userId]' */
+  fields: string[]
+}
+
+/**
+ * Severity of a library log entry
+ */
+export type NoticeLogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured details attached to a log entry
+ */
+export interface NoticeLogContext {
+  /** Message the entry is about */
+  messageId?: string
+  /** Notice window the entry is about */
+  windowLabel?: string
+  /** The underlying error, for warn and error entries */
+  error?: unknown
+  /** Any other details */
+  [key: string]: unknown
+}
+
+/**
+ * Receives the library's log output
+ */
+export interface NoticeLogger {
+  debug: (message: string, context: NoticeLogContext) => void
+  info: (message: string, context: NoticeLogContext) => void
+  warn: (message: string, context: NoticeLogContext) => void
+  error: (message: string, context: NoticeLogContext) => void
+}
+
+/**
+ * A recorded log entry, as returned by getNoticeDebugLog
+ */
+export interface NoticeLogEntry {
+  level: NoticeLogLevel
+  message: string
+  context: NoticeLogContext
+  /** Epoch milliseconds */
+  timestamp: number
 }
 
 /**
@@ -60,5 +359,73 @@ export interface NoticeConfig {
   defaultWidth: number
   /** Default window height if not specified in message */
   defaultHeight: number
+  /**
+   * What happens when a 'critical' message arrives while a lower-priority notice is showing:
+   * - 'none': the critical message waits at the head of the queue (default)
+   * - 'requeue': the showing window is closed and its message is put back in the queue
+   */
+  preemption: 'none' | 'requeue'
+  /** Maximum number of notice windows open at the same time (default: 1) */
+  maxConcurrent: number
+  /** Gap in pixels between stacked notice windows (default: 10) */
+  stackGap: number
+  /** Auto-close delay in milliseconds for messages without autoCloseMs (default: 0, never) */
+  defaultAutoCloseMs: number
+  /** Dedupe policy for messages without dedupePolicy (default: 'ignore') */
+  defaultDedupePolicy: DedupePolicy
+  /**
+   * Storage backend (default: 'indexeddb'):
+   * 'indexeddb' (Dexie, shared by all windows), 'memory', or a custom NoticeStorage.
+   * A custom backend is not persisted with the config, so set it in every window
+   */
+  storage: 'indexeddb' | 'memory' | NoticeStorage
+  /**
+   * Label of the window that runs the queue (default: 'main'). Other windows forward
+   * enqueue, close, hide and similar calls to it instead of changing the queue themselves.
+   * If no window has this label, the first app window to initialize takes over
+   */
+  ownerLabel: string
+  /** Extra IndexedDB indexes on message fields (default: none) */
+  customIndexes: NoticeIndexConfig
+  /**
+   * Window and event layer (default: 'tauri'). Pass createFakeWindowAdapter() from
+   * 'tauri-notice-window/testing' to run without a Tauri runtime, e.g. in tests.
+   * Not persisted, so set it in every window
+   */
+  windowAdapter: 'tauri' | NoticeWindowAdapter
+  /** Recurring periods during which Do Not Disturb is on (default: none) */
+  quietHours: QuietHoursRule[]
+  /** Lowest priority still shown during Do Not Disturb, or null to hold everything (default: 'critical') */
+  dndBreakthroughPriority: MessagePriority | null
+  /**
+   * Message type of the summary shown when Do Not Disturb ends, if notices arrived meanwhile,
+   * or null for no summary (default: null). Needs a matching notice route
+   */
+  dndSummaryType: string | null
+  /**
+   * Milliseconds without input, focus or visibility changes after which the user counts as away
+   * (default: 0, never). While away no new notices are shown
+   */
+  idleTimeoutMs: number
+  /** Native window settings for every notice (default: none; see NoticeWindowOptions for built-in defaults) */
+  defaultWindowOptions: NoticeWindowOptions
+  /** Retries when a notice window fails to open (default: 3 attempts, 500ms doubling, 10s timeout) */
+  windowRetry: NoticeWindowRetryConfig
+  /** Per-type overrides, keyed by message type (default: none) */
+  types: Record<string, NoticeTypeConfig>
+  /**
+   * Where library log output goes (default: null, silent). Not persisted, so set it in every window.
+   * createConsoleLogger() gives a console-based logger
+   */
+  logger: NoticeLogger | null
+  /** Keep the latest log entries, queue transitions included, for getNoticeDebugLog (default: false) */
+  debug: boolean
+  /** Number of entries kept in debug mode (default: 200) */
+  debugLogSize: number
+  /**
+   * Save the config to localStorage so other windows start with it (default: false).
+   * Without it, call setNoticeConfig in every window that needs non-default settings
+   */
+  persist: boolean
 }
 
@@ -0,0 +1,67 @@
+import type { StoredMessage, NoticeHistoryQuery, NoticeHistoryPage } from './message'
+
+/**
+ * A history page together with the unread count, as delivered to history observers
+ */
+export type NoticeHistorySnapshot = NoticeHistoryPage & { unreadCount: number }
+
+/**
+ * Persistence backend for notice messages
+ * The library ships a Dexie (IndexedDB) and an in-memory implementation;
+ * apps can provide their own (SQLite, file store, ...) through NoticeConfig.storage.
+ * A message is identified by its scope and ID together, so two accounts can hold the same ID
+ */
+export interface NoticeStorage {
+  /** Insert or overwrite a message (keyed by its scope and ID) */
+  saveMessage(message: StoredMessage): Promise<void>
+  /**
+   * Insert the messages not stored yet in their scope, leaving stored ones untouched, in one transaction
+   * Optional; without it messages are checked and saved one at a time
+   */
+  addMessages?(messages: StoredMessage[]): Promise<void>
+  /**
+   * Run storage calls made by work in one transaction
+   * Optional; without it the calls run one by one
+   */
+  transaction?<T>(work: () => Promise<T>): Promise<T>
+  /**
+   * Read a bookkeeping value (e.g. the server sync cursor)
+   * Optional, like setMeta; without them such values only last until reload
+   */
+  getMeta?(key: string): Promise<string | undefined>
+  /** Store a bookkeeping value */
+  setMeta?(key: string, value: string): Promise<void>
+  /** Get a message by scope and ID */
+  getMessage(scope: string, id: string): Promise<StoredMessage | undefined>
+  /** Check if a message exists */
+  hasMessage(scope: string, id: string): Promise<boolean>
+  /** Merge changes into a stored message (no-op if it does not exist) */
+  updateMessage(scope: string, id: string, changes: Partial<StoredMessage>): Promise<void>
+  /** Delete a message */
+  deleteMessage(scope: string, id: string): Promise<void>
+  /** Get the 'pending', 'snoozed' and 'showing' messages of one scope sorted by queue position */
+  getPendingMessages(scope: string): Promise<StoredMessage[]>
+  /** Update the queue status of a message */
+  updateQueueStatus(scope: string, id: string, status: StoredMessage['queueStatus']): Promise<void>
+  /** Update queue positions for messages of one scope (in one transaction where the backend supports it) */
+  updateQueuePositions(scope: string, positions: Array<{ id: string; position: number }>): Promise<void>
+  /** Delete 'pending', 'snoozed' and 'showing' messages of one scope, or of all scopes when omitted */
+  clearPendingMessages(scope?: string): Promise<void>
+  /** List history messages matching the query, newest first */
+  getMessageHistory(query: NoticeHistoryQuery): Promise<NoticeHistoryPage>
+  /** Count unread history messages, optionally of one type and scope */
+  getUnreadCount(type?: string, scope?: string): Promise<number>
+  /** Mark every unread history message (optionally of one type and scope) as read */
+  markAllAsRead(type?: string, scope?: string): Promise<void>
+  /** Watch a single message; returns a function that stops watching */
+  observeMessage(
+    scope: string,
+    id: string,
+    callback: (message: StoredMessage | undefined) => void
+  ): () => void
+  /** Watch a history query; returns a function that stops watching */
+  observeHistory(
+    query: NoticeHistoryQuery,
+    callback: (snapshot: NoticeHistorySnapshot) => void
+  ): () => void
+}
@@ -0,0 +1,73 @@
+import type { MessageType } from './message'
+
+/**
+ * An event pushed by the notice server
+ * cursor marks the event's place in the feed; the sync resumes after the last one it handled
+ */
+export type NoticeServerEvent =
+  | { type: 'notice'; message: MessageType; cursor?: string }
+  | { type: 'update'; message: MessageType; cursor?: string }
+  | { type: 'hide'; messageId: string; cursor?: string }
+  | { type: 'hideAll'; cursor?: string }
+
+/**
+ * Receipt sent back to the server
+ * 'delivered' once a notice is queued, 'read' once the user closed it or chose an action
+ */
+export interface NoticeAck {
+  type: 'delivered' | 'read'
+  messageId: string
+}
+
+/**
+ * What a transport is given when it connects
+ */
+export interface NoticeSyncConnection {
+  /** Last cursor handled, read again on every (re)connect; null before the first event */
+  getCursor(): string | null
+  /**
+   * Hand over a server event; resolves once it has been applied (failures are logged, not thrown)
+   * Events handed over while earlier ones are still being applied are applied together, in order
+   */
+  onEvent(event: NoticeServerEvent): Promise<void>
+  /** Report a connection problem (the transport keeps reconnecting on its own) */
+  onError(error: unknown): void
+}
+
+/**
+ * Connection to a notice server
+ * The library ships WebSocket, Server-Sent Events and polling transports;
+ * pass another implementation to createNoticeSync for anything else
+ */
+export interface NoticeSyncTransport {
+  /** Start receiving events, reconnecting until disconnect is called */
+  connect(connection: NoticeSyncConnection): void
+  /** Stop receiving events */
+  disconnect(): void
+  /** Send a receipt to the server */
+  acknowledge(ack: NoticeAck): Promise<void>
+}
+
+/**
+ * Options for createNoticeSync
+ */
+export interface NoticeSyncOptions {
+  /** Connection to the server */
+  transport: NoticeSyncTransport
+  /** Send 'delivered' receipts (default: true) */
+  ackDelivery?: boolean
+  /** Send 'read' receipts (default: true) */
+  ackRead?: boolean
+}
+
+/**
+ * A running server sync
+ */
+export interface NoticeSync {
+  /** Load the saved cursor and connect; does nothing outside the queue owner window */
+  start(): Promise<void>
+  /** Disconnect and stop sending receipts */
+  stop(): void
+  /** Last cursor handled */
+  getCursor(): string | null
+}
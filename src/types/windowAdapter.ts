@@ -0,0 +1,63 @@
+import type { WindowOptions } from '@tauri-apps/api/window'
+import type { WebviewOptions } from '@tauri-apps/api/webview'
+import type { WindowPosition } from './message'
+
+/**
+ * Options a notice window is created with
+ */
+export type NoticeWindowCreateOptions = Omit<WebviewOptions, 'x' | 'y' | 'width' | 'height'> &
+  WindowOptions
+
+/**
+ * Usable area of a monitor in physical pixels
+ * Physical coordinates line up across monitors with different scale factors; logical ones don't
+ */
+export interface NoticeMonitorArea {
+  left: number
+  top: number
+  width: number
+  height: number
+  /** Ratio of physical to logical pixels on this monitor (default: 1) */
+  scaleFactor?: number
+}
+
+/**
+ * An open window, as seen by the notice system
+ */
+export interface NoticeWindowHandle {
+  /** Window label ('notice-<message id>' for notice windows) */
+  label: string
+  /** Ask the window to close; onDestroyed handlers run once it is gone */
+  close(): Promise<void>
+  /** Remove the window immediately */
+  destroy(): Promise<void>
+  /** Move the window (physical pixels) */
+  setPosition(x: number, y: number): Promise<void>
+  /** Run a handler once when the window is destroyed */
+  onDestroyed(handler: () => void): void
+}
+
+/**
+ * Window and event layer used by the notice system
+ * The library ships a Tauri implementation (the default) and a fake for tests;
+ * set another one through NoticeConfig.windowAdapter
+ */
+export interface NoticeWindowAdapter {
+  /**
+   * Open a window; resolves once it exists and rejects if it could not be created
+   * options.x and options.y are physical pixels, width and height logical ones
+   */
+  createWindow(label: string, options: NoticeWindowCreateOptions): Promise<NoticeWindowHandle>
+  /** Find an open window by label */
+  getWindow(label: string): Promise<NoticeWindowHandle | null>
+  /** List every open window */
+  getAllWindows(): Promise<NoticeWindowHandle[]>
+  /** Label of the window this code runs in */
+  getCurrentLabel(): string
+  /** Work area of the selected monitor, or null if none is reported */
+  getMonitorArea(selector?: WindowPosition['monitor']): Promise<NoticeMonitorArea | null>
+  /** Send an event to every window */
+  emit(event: string, payload: unknown): Promise<void>
+  /** Listen for an event from any window; resolves to a function that stops listening */
+  listen<T>(event: string, handler: (payload: T) => void): Promise<() => void>
+}
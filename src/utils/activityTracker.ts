@@ -0,0 +1,68 @@
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+
+/**
+ * Minimum time between activity reports while the user is present
+ * Keeps pointer and key events from flooding the synced store
+ */
+const ACTIVITY_REPORT_INTERVAL_MS = 5000
+
+/**
+ * DOM events that count as the user being at the machine
+ */
+const ACTIVITY_EVENTS = ['focus', 'pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+
+/**
+ * Stops the tracker running in this window, if any
+ */
+let stopTracker: (() => void) | null = null
+
+/**
+ * Time of the last report sent from this window
+ */
+let lastReportAt = 0
+
+/**
+ * Stop the tracker running in this window, if any
+ */
+export const stopActivityTracker = (): void => {
+  stopTracker?.()
+}
+
+/**
+ * Report activity, at most once per interval unless the user was away
+ */
+const handleActivity = (): void => {
+  const { isAway, reportActivity } = useMessageQueueStore.getState()
+  const now = Date.now()
+  if (!isAway && now - lastReportAt < ACTIVITY_REPORT_INTERVAL_MS) return
+
+  lastReportAt = now
+  reportActivity()
+}
+
+const handleVisibilityChange = (): void => {
+  if (document.visibilityState === 'visible') {
+    handleActivity()
+  }
+}
+
+/**
+ * Start reporting focus, visibility and input activity of this window to the shared store
+ * Run it in the main window and in every notice window (NoticeLayout does this for you)
+ * @returns Function that stops tracking
+ */
+export const startActivityTracker = (): (() => void) => {
+  if (stopTracker) return stopTracker
+  if (typeof window === 'undefined') return () => {}
+
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  const stop = () => {
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    stopTracker = null
+  }
+  stopTracker = stop
+  return stop
+}
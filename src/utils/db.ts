@@ -1,99 +1,249 @@
-import Dexie, { type Table } from 'dexie'
-import type { MessageType, StoredMessage } from '../types/message'
-import { getNoticeConfig } from '../config/noticeConfig'
+import type {
+  MessageType,
+  StoredMessage,
+  NoticeHistoryQuery,
+  NoticeHistoryPage,
+  NoticeActionResult,
+} from '../types/message'
+import type { NoticeStorage, NoticeHistorySnapshot } from '../types/storage'
+import { getNoticeConfig, setNoticeConfig } from '../config/noticeConfig'
+import { createDexieStorage } from '../storage/dexieStorage'
+import { createMemoryStorage } from '../storage/memoryStorage'
+import { DEFAULT_NOTICE_SCOPE } from '../storage/query'
+import { isExpired } from './schedule'
+
+let storage: NoticeStorage | null = null
 
 /**
- * Dexie database for message persistence
+ * Scope used by calls that don't name one; the queue store points this at its current scope
  */
-class NoticeDatabase extends Dexie {
-  messages!: Table<StoredMessage, string>
+let resolveActiveScope = (): string => DEFAULT_NOTICE_SCOPE
 
-  constructor(databaseName: string) {
-    super(databaseName)
-    this.version(1).stores({
-      messages: 'id, queueStatus, queuePosition, timestamp',
-    })
-  }
+/**
+ * Set where calls without a scope get it from
+ * @param resolver - Returns the current user/account
+ */
+export const setActiveScopeResolver = (resolver: () => string): void => {
+  resolveActiveScope = resolver
 }
 
-let db: NoticeDatabase | null = null
+/**
+ * Bookkeeping values for backends without getMeta/setMeta
+ */
+const fallbackMeta = new Map<string, string>()
 
 /**
- * Initialize the database with the configured name
+ * Initialize the storage backend selected by NoticeConfig.storage
+ * @returns The active storage backend
  */
-export const initializeDatabase = (): NoticeDatabase => {
-  if (!db) {
+export const initializeDatabase = (): NoticeStorage => {
+  if (!storage) {
     const config = getNoticeConfig()
-    db = new NoticeDatabase(config.databaseName)
+    if (config.storage === 'memory') {
+      storage = createMemoryStorage()
+    } else if (config.storage === 'indexeddb') {
+      storage = createDexieStorage(config.databaseName, config.customIndexes)
+    } else {
+      storage = config.storage
+    }
   }
-  return db
+  return storage
+}
+
+/**
+ * Drop the active storage backend so the next call uses the current NoticeConfig.storage
+ * Stored messages are not touched
+ */
+export const resetDatabase = (): void => {
+  storage = null
+}
+
+/**
+ * Use the IndexedDB database the opening window passed in a notice window's URL
+ * Does nothing when this window was configured with another storage backend
+ * @param databaseName - Database name from the URL
+ */
+export const adoptDatabaseName = (databaseName: string): void => {
+  const config = getNoticeConfig()
+  if (config.storage !== 'indexeddb' || config.databaseName === databaseName) return
+
+  setNoticeConfig({ databaseName })
+  resetDatabase()
 }
 
 /**
- * Get the database instance
+ * Get the storage backend
  */
-const getDb = (): NoticeDatabase => {
-  if (!db) {
+const getDb = (): NoticeStorage => {
+  if (!storage) {
     return initializeDatabase()
   }
-  return db
+  return storage
 }
 
 /**
- * Save a new message to the database
+ * Run several storage calls in one transaction when the backend supports it
+ * Work must only await storage calls, or the transaction may commit early
+ * @param work - Storage calls to run
+ * @returns Whatever work returns
+ */
+export const runInTransaction = async <T>(work: () => Promise<T>): Promise<T> => {
+  const db = getDb()
+  return db.transaction ? await db.transaction(work) : await work()
+}
+
+/**
+ * Read a bookkeeping value
+ * @param key - Value key
+ * @returns The value, or undefined if it was never set
+ */
+export const getMetaValue = async (key: string): Promise<string | undefined> => {
+  const db = getDb()
+  return db.getMeta ? await db.getMeta(key) : fallbackMeta.get(key)
+}
+
+/**
+ * Store a bookkeeping value
+ * @param key - Value key
+ * @param value - Value to store
+ */
+export const setMetaValue = async (key: string, value: string): Promise<void> => {
+  const db = getDb()
+  if (db.setMeta) {
+    await db.setMeta(key, value)
+  } else {
+    fallbackMeta.set(key, value)
+  }
+}
+
+/**
+ * Build the stored form of a new message
+ * @param message - Message to store
+ * @param scope - User/account the message belongs to
+ * @param timestamp - Save time
+ */
+const toStoredMessage = (message: MessageType, scope: string, timestamp: string): StoredMessage => ({
+  ...message,
+  timestamp,
+  isRead: false,
+  isShown: false,
+  queueStatus: 'pending',
+  queuePosition: 0,
+  scope,
+})
+
+/**
+ * Save a new message to storage
  * @param message - Message to save
+ * @param scope - User/account the message belongs to
  */
-export const saveMessage = async (message: MessageType): Promise<void> => {
-  const storedMessage: StoredMessage = {
-    ...message,
-    timestamp: new Date().toISOString(),
-    isRead: false,
-    isShown: false,
-    queueStatus: 'pending',
-    queuePosition: 0,
+export const saveMessage = async (
+  message: MessageType,
+  scope: string = DEFAULT_NOTICE_SCOPE
+): Promise<void> => {
+  await getDb().saveMessage(toStoredMessage(message, scope, new Date().toISOString()))
+}
+
+/**
+ * Save messages that are not stored yet, in one transaction
+ * Messages already in storage are left as they are
+ * @param messages - Messages to save
+ * @param scope - User/account the messages belong to
+ */
+export const saveMessages = async (
+  messages: MessageType[],
+  scope: string = DEFAULT_NOTICE_SCOPE
+): Promise<void> => {
+  const timestamp = new Date().toISOString()
+  const storedMessages = messages.map((message) => toStoredMessage(message, scope, timestamp))
+  const db = getDb()
+
+  if (db.addMessages) {
+    await db.addMessages(storedMessages)
+    return
   }
-  await getDb().messages.put(storedMessage)
+
+  // Custom backends without bulk support
+  for (const storedMessage of storedMessages) {
+    if (!(await db.hasMessage(storedMessage.scope, storedMessage.id))) {
+      await db.saveMessage(storedMessage)
+    }
+  }
+}
+
+/**
+ * Update the content of a stored message, keeping its queue state
+ * @param id - Message ID
+ * @param changes - New message fields
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const updateMessage = async (
+  id: string,
+  changes: Partial<MessageType>,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  const { id: _id, ...content } = changes
+  await getDb().updateMessage(scope, id, content)
 }
 
 /**
- * Check if a message exists in the database
+ * Check if a message exists in storage
  * @param id - Message ID to check
+ * @param scope - User/account the message belongs to (the current one when omitted)
  * @returns True if message exists
  */
-export const hasMessage = async (id: string): Promise<boolean> => {
-  const message = await getDb().messages.get(id)
-  return !!message
+export const hasMessage = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<boolean> => {
+  return await getDb().hasMessage(scope, id)
 }
 
 /**
- * Get all pending messages sorted by queue position
+ * Get all pending, snoozed and showing messages of a scope sorted by queue position
+ * 'showing' rows are notices that were open when the app last quit; the store requeues them.
+ * Messages past their expiry time are marked expired and left out
+ * @param scope - User/account whose queue to load
  * @returns Array of pending messages
  */
-export const getPendingMessages = async (): Promise<StoredMessage[]> => {
-  return await getDb()
-    .messages.where('queueStatus')
-    .equals('pending')
-    .sortBy('queuePosition')
+export const getPendingMessages = async (
+  scope: string = DEFAULT_NOTICE_SCOPE
+): Promise<StoredMessage[]> => {
+  const messages = await getDb().getPendingMessages(scope)
+
+  const now = Date.now()
+  const expired = messages.filter((message) => isExpired(message, now))
+  if (expired.length > 0) {
+    await Promise.all(expired.map((message) => markAsExpired(message.id, scope)))
+  }
+
+  return messages.filter((message) => !isExpired(message, now))
 }
 
 /**
  * Update the queue status of a message
  * @param id - Message ID
  * @param status - New queue status
+ * @param scope - User/account the message belongs to (the current one when omitted)
  */
 export const updateQueueStatus = async (
   id: string,
-  status: StoredMessage['queueStatus']
+  status: StoredMessage['queueStatus'],
+  scope: string = resolveActiveScope()
 ): Promise<void> => {
-  await getDb().messages.update(id, { queueStatus: status })
+  await getDb().updateQueueStatus(scope, id, status)
 }
 
 /**
  * Mark a message as shown
  * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
  */
-export const markAsShown = async (id: string): Promise<void> => {
-  await getDb().messages.update(id, {
+export const markAsShown = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, {
     queueStatus: 'shown',
     isShown: true,
   })
@@ -102,42 +252,189 @@ export const markAsShown = async (id: string): Promise<void> => {
 /**
  * Mark a message as hidden (server-triggered hide)
  * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
  */
-export const markAsHidden = async (id: string): Promise<void> => {
-  await getDb().messages.update(id, {
+export const markAsHidden = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, {
     queueStatus: 'hidden',
   })
 }
 
+/**
+ * Mark a message as expired (dropped without being shown, or closed when its time ran out)
+ * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const markAsExpired = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, {
+    queueStatus: 'expired',
+  })
+}
+
+/**
+ * Mark a message as failed (its window could not be opened)
+ * @param id - Message ID
+ * @param reason - Why the window failed
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const markAsFailed = async (
+  id: string,
+  reason: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, {
+    queueStatus: 'failed',
+    failureReason: reason,
+  })
+}
+
+/**
+ * Snooze a message so it comes back later
+ * @param id - Message ID
+ * @param until - ISO timestamp when the message should be shown again
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const snoozeMessage = async (
+  id: string,
+  until: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, {
+    queueStatus: 'snoozed',
+    snoozedUntil: until,
+  })
+}
+
+/**
+ * Record the action a user took on a message
+ * @param id - Message ID
+ * @param result - The chosen action
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const recordActionResult = async (
+  id: string,
+  result: NoticeActionResult,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, { actionResult: result })
+}
+
 /**
  * Get a message by ID
  * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
  * @returns The stored message or undefined
  */
-export const getMessage = async (id: string): Promise<StoredMessage | undefined> => {
-  return await getDb().messages.get(id)
+export const getMessage = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<StoredMessage | undefined> => {
+  return await getDb().getMessage(scope, id)
 }
 
 /**
- * Clear all pending and showing messages
+ * Clear all pending, snoozed and showing messages
+ * @param scope - Only clear this user/account (all accounts when omitted)
  */
-export const clearPendingMessages = async (): Promise<void> => {
-  await getDb()
-    .messages.where('queueStatus')
-    .anyOf(['pending', 'showing'])
-    .delete()
+export const clearPendingMessages = async (scope?: string): Promise<void> => {
+  await getDb().clearPendingMessages(scope)
 }
 
 /**
  * Update queue positions for multiple messages
  * @param messages - Array of messages with their positions
+ * @param scope - User/account the message belongs to (the current one when omitted)
  */
 export const updateQueuePositions = async (
-  messages: Array<{ id: string; position: number }>
+  messages: Array<{ id: string; position: number }>,
+  scope: string = resolveActiveScope()
 ): Promise<void> => {
-  const updates = messages.map((msg) =>
-    getDb().messages.update(msg.id, { queuePosition: msg.position })
-  )
-  await Promise.all(updates)
+  await getDb().updateQueuePositions(scope, messages)
 }
 
+/**
+ * List past notices, newest first
+ * @param query - Status/type filters and paging
+ * @returns The requested page and the total number of matches
+ */
+export const getMessageHistory = async (
+  query: NoticeHistoryQuery = {}
+): Promise<NoticeHistoryPage> => {
+  return await getDb().getMessageHistory(query)
+}
+
+/**
+ * Count unread past notices
+ * @param type - Only count messages of this type
+ * @param scope - Only count messages of this user/account
+ * @returns Number of unread messages
+ */
+export const getUnreadCount = async (type?: string, scope?: string): Promise<number> => {
+  return await getDb().getUnreadCount(type, scope)
+}
+
+/**
+ * Mark a message as read
+ * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const markAsRead = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().updateMessage(scope, id, { isRead: true })
+}
+
+/**
+ * Mark every past notice as read
+ * @param type - Only mark messages of this type
+ * @param scope - Only mark messages of this user/account
+ */
+export const markAllAsRead = async (type?: string, scope?: string): Promise<void> => {
+  await getDb().markAllAsRead(type, scope)
+}
+
+/**
+ * Delete a message from storage
+ * @param id - Message ID
+ * @param scope - User/account the message belongs to (the current one when omitted)
+ */
+export const deleteMessage = async (
+  id: string,
+  scope: string = resolveActiveScope()
+): Promise<void> => {
+  await getDb().deleteMessage(scope, id)
+}
+
+/**
+ * Watch a single message, including changes made from other windows
+ * @param id - Message ID
+ * @param callback - Called with the stored message (or undefined) on every change
+ * @returns Function that stops watching
+ */
+export const observeMessage = (
+  id: string,
+  callback: (message: StoredMessage | undefined) => void,
+  scope: string = resolveActiveScope()
+): (() => void) => {
+  return getDb().observeMessage(scope, id, callback)
+}
+
+/**
+ * Watch notice history, including changes made from other windows
+ * @param query - History filters and paging
+ * @param callback - Called with the current page and unread count on every change
+ * @returns Function that stops watching
+ */
+export const observeHistory = (
+  query: NoticeHistoryQuery,
+  callback: (snapshot: NoticeHistorySnapshot) => void
+): (() => void) => {
+  return getDb().observeHistory(query, callback)
+}
@@ -0,0 +1,113 @@
+import type {
+  NoticeConfig,
+  NoticeLogContext,
+  NoticeLogEntry,
+  NoticeLogger,
+  NoticeLogLevel,
+} from '../types/message'
+
+/**
+ * Order of log levels, least severe first
+ */
+const LOG_LEVELS: NoticeLogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/**
+ * Logger set in this window's config
+ */
+let activeLogger: NoticeLogger | null = null
+
+/**
+ * Capacity of the debug log, 0 when debug mode is off
+ */
+let debugLogSize = 0
+
+/**
+ * Most recent log entries, oldest first
+ */
+let debugLog: NoticeLogEntry[] = []
+
+/**
+ * Apply the logging part of the config
+ * Called by the config module whenever the config changes
+ * @param config - Current configuration
+ */
+export const configureNoticeLogger = (
+  config: Pick<NoticeConfig, 'logger' | 'debug' | 'debugLogSize'>
+): void => {
+  activeLogger = config.logger
+  debugLogSize = config.debug ? config.debugLogSize : 0
+  if (debugLog.length > debugLogSize) {
+    debugLog = debugLog.slice(debugLog.length - debugLogSize)
+  }
+}
+
+/**
+ * Record an entry in debug mode and pass it to the configured logger
+ */
+const write = (level: NoticeLogLevel, message: string, context: NoticeLogContext = {}): void => {
+  if (debugLogSize > 0) {
+    debugLog.push({ level, message, context, timestamp: Date.now() })
+    if (debugLog.length > debugLogSize) {
+      debugLog.shift()
+    }
+  }
+
+  if (!activeLogger) return
+  try {
+    activeLogger[level](message, context)
+  } catch {
+    // A failing logger must not break the queue
+  }
+}
+
+/**
+ * Library-internal logger, silent unless config.logger is set
+ */
+export const noticeLog = {
+  debug: (message: string, context?: NoticeLogContext) => write('debug', message, context),
+  info: (message: string, context?: NoticeLogContext) => write('info', message, context),
+  warn: (message: string, context?: NoticeLogContext) => write('warn', message, context),
+  error: (message: string, context?: NoticeLogContext) => write('error', message, context),
+}
+
+/**
+ * Get the entries recorded in debug mode in this window, e.g. to attach to a bug report
+ * @returns Copy of the recent log entries, oldest first
+ */
+export const getNoticeDebugLog = (): NoticeLogEntry[] => {
+  return [...debugLog]
+}
+
+/**
+ * Empty the debug log of this window
+ */
+export const clearNoticeDebugLog = (): void => {
+  debugLog = []
+}
+
+/**
+ * Create a logger that writes to the browser console
+ * @param minLevel - Least severe level to print (default: 'info')
+ * @returns Logger for config.logger
+ */
+export const createConsoleLogger = (minLevel: NoticeLogLevel = 'info'): NoticeLogger => {
+  const enabled = (level: NoticeLogLevel) => LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel)
+  const print =
+    (level: NoticeLogLevel) =>
+    (message: string, context: NoticeLogContext): void => {
+      if (!enabled(level)) return
+      const line = `[tauri-notice] ${message}`
+      if (Object.keys(context).length > 0) {
+        console[level](line, context)
+      } else {
+        console[level](line)
+      }
+    }
+
+  return {
+    debug: print('debug'),
+    info: print('info'),
+    warn: print('warn'),
+    error: print('error'),
+  }
+}
@@ -0,0 +1,157 @@
+import type { NoticeActionResult } from '../types/message'
+import { getMessage, recordActionResult } from './db'
+import { emitNoticeEvent } from './noticeEvents'
+import { getWindowAdapter } from './windowAdapter'
+import { isQueueOwner, sendNoticeCommand } from './queueOwner'
+import { noticeLog } from './logger'
+
+/**
+ * Tauri event carrying action results from notice windows to every window
+ */
+const NOTICE_ACTION_EVENT = 'tauri-notice://action'
+
+/**
+ * Tauri event telling every window that a notice is finished, with its final result
+ */
+const NOTICE_SETTLED_EVENT = 'tauri-notice://settled'
+
+/**
+ * Payload of NOTICE_SETTLED_EVENT
+ */
+interface NoticeSettlement {
+  messageId: string
+  result: NoticeActionResult | null
+}
+
+/**
+ * Callers waiting for the outcome of a notice, keyed by message ID
+ */
+const pendingResults = new Map<string, Array<(result: NoticeActionResult | null) => void>>()
+
+/**
+ * Unlisten functions for the shared action and settle listeners used by waiters
+ */
+let waiterListener: Promise<Array<() => void>> | null = null
+
+/**
+ * Resolve everyone waiting on a message
+ * @param messageId - Message ID
+ * @param result - The chosen action, or null if the notice closed without one
+ */
+const resolvePending = (messageId: string, result: NoticeActionResult | null): void => {
+  const resolvers = pendingResults.get(messageId)
+  if (!resolvers) return
+
+  pendingResults.delete(messageId)
+  resolvers.forEach((resolve) => resolve(result))
+
+  if (pendingResults.size === 0 && waiterListener) {
+    waiterListener.then((unlisteners) => unlisteners.forEach((unlisten) => unlisten()))
+    waiterListener = null
+  }
+}
+
+/**
+ * Store an action result and broadcast it to all windows
+ * Runs in the queue owner, so the result is recorded before a following close is handled
+ * @param result - The action result
+ */
+export const applyNoticeAction = async (result: NoticeActionResult): Promise<void> => {
+  await recordActionResult(result.messageId, result)
+  await getWindowAdapter().emit(NOTICE_ACTION_EVENT, result)
+
+  const message = await getMessage(result.messageId)
+  if (message) {
+    emitNoticeEvent('actionTaken', message, { action: result })
+  }
+}
+
+/**
+ * Record an action taken in a notice window and broadcast it to all windows
+ * @param messageId - Message ID
+ * @param actionId - ID of the chosen action
+ * @param payload - Optional extra data
+ * @returns The recorded result
+ */
+export const takeNoticeAction = async (
+  messageId: string,
+  actionId: string,
+  payload?: any
+): Promise<NoticeActionResult> => {
+  const result: NoticeActionResult = {
+    messageId: String(messageId),
+    actionId,
+    payload,
+    timestamp: new Date().toISOString(),
+  }
+
+  if (isQueueOwner()) {
+    await applyNoticeAction(result)
+  } else {
+    await sendNoticeCommand({ type: 'action', result })
+  }
+  return result
+}
+
+/**
+ * Subscribe to actions taken in any notice window
+ * @param handler - Called with each action result
+ * @returns Function that stops the subscription
+ */
+export const onNoticeAction = (handler: (result: NoticeActionResult) => void): (() => void) => {
+  const unlisten = getWindowAdapter().listen<NoticeActionResult>(NOTICE_ACTION_EVENT, handler)
+  return () => {
+    unlisten.then((fn) => fn())
+  }
+}
+
+/**
+ * Resolve every open waiter in this window with null and stop listening for results
+ */
+export const cancelNoticeActionWaiters = (): void => {
+  Array.from(pendingResults.keys()).forEach((messageId) => resolvePending(messageId, null))
+}
+
+/**
+ * Wait for the user to act on a notice
+ * @param messageId - Message ID
+ * @returns The chosen action, or null if the notice closed without one
+ */
+export const waitForNoticeAction = (messageId: string): Promise<NoticeActionResult | null> => {
+  const normalizedId = String(messageId)
+
+  if (!waiterListener) {
+    const adapter = getWindowAdapter()
+    waiterListener = Promise.all([
+      adapter.listen<NoticeActionResult>(NOTICE_ACTION_EVENT, (result) =>
+        resolvePending(result.messageId, result)
+      ),
+      adapter.listen<NoticeSettlement>(NOTICE_SETTLED_EVENT, ({ messageId, result }) =>
+        resolvePending(messageId, result)
+      ),
+    ])
+  }
+
+  return new Promise((resolve) => {
+    pendingResults.set(normalizedId, [...(pendingResults.get(normalizedId) ?? []), resolve])
+  })
+}
+
+/**
+ * Settle waiters in every window once a notice is finished (closed, hidden, expired or dropped)
+ * Runs in the queue owner; uses the stored result so an action is not lost if its event arrives after the close
+ * @param messageId - Message ID
+ * @param result - Final result; looked up in storage when omitted
+ */
+export const settleNoticeAction = async (
+  messageId: string,
+  result?: NoticeActionResult | null
+): Promise<void> => {
+  const normalizedId = String(messageId)
+  const settled = result !== undefined ? result : ((await getMessage(normalizedId))?.actionResult ?? null)
+
+  resolvePending(normalizedId, settled)
+  await getWindowAdapter()
+    .emit(NOTICE_SETTLED_EVENT, { messageId: normalizedId, result: settled })
+    .catch((error) => noticeLog.warn('Failed to broadcast notice result', { messageId: normalizedId, error }))
+}
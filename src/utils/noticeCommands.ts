@@ -0,0 +1,84 @@
+import type { NoticeCommand } from '../types/message'
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { closeNoticeWindow } from './noticeWindow'
+import { applyNoticeAction } from './noticeActions'
+import { getWindowAdapter } from './windowAdapter'
+import { NOTICE_COMMAND_EVENT } from './queueOwner'
+import { noticeLog } from './logger'
+
+/**
+ * Commands run one after another in arrival order
+ */
+let commandChain: Promise<void> = Promise.resolve()
+
+/**
+ * Stops listening for commands, set while the handler runs
+ */
+let stopCommandListener: (() => Promise<void>) | null = null
+
+/**
+ * Run a command from another window
+ * @param command - The command
+ */
+const runCommand = async (command: NoticeCommand): Promise<void> => {
+  const store = useMessageQueueStore.getState()
+
+  switch (command.type) {
+    case 'enqueue':
+      return store.enqueue(command.message)
+    case 'enqueueMany':
+      return store.enqueueMany(command.messages)
+    case 'close':
+      return closeNoticeWindow(command.messageId)
+    case 'hide':
+      return store.hideMessage(command.messageId)
+    case 'remove':
+      return store.remove(command.messageId)
+    case 'moveTo':
+      return store.moveTo(command.messageId, command.index)
+    case 'pause':
+      return store.pause()
+    case 'resume':
+      return store.resume()
+    case 'action':
+      return applyNoticeAction(command.result)
+    case 'activity':
+      return store.reportActivity()
+    case 'setDoNotDisturb':
+      return store.setDoNotDisturb(command.enabled)
+    case 'switchScope':
+      return store.switchScope(command.scope)
+    case 'clear':
+      return store.clearOnLogout()
+  }
+}
+
+/**
+ * Start handling commands sent by other windows
+ * Called by initializeNoticeSystem in the queue owner window; safe to call more than once
+ */
+export const startNoticeCommandHandler = (): void => {
+  if (stopCommandListener) return
+
+  const unlisten = getWindowAdapter().listen<NoticeCommand>(NOTICE_COMMAND_EVENT, (command) => {
+    commandChain = commandChain
+      .then(() => runCommand(command))
+      .catch((error) => noticeLog.error('Failed to run notice command', { command: command.type, error }))
+  })
+
+  stopCommandListener = async () => {
+    const stopListening = await unlisten
+    stopListening()
+    await commandChain
+  }
+}
+
+/**
+ * Stop handling commands from other windows, letting queued ones finish
+ * startNoticeCommandHandler may be called again afterwards
+ */
+export const stopNoticeCommandHandler = async (): Promise<void> => {
+  const stop = stopCommandListener
+  stopCommandListener = null
+  await stop?.()
+}
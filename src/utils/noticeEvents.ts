@@ -0,0 +1,129 @@
+import type { MessageType, NoticeEvent, NoticeEventType } from '../types/message'
+import { noticeLog } from './logger'
+import { getWindowAdapter } from './windowAdapter'
+
+/**
+ * Tauri event carrying notice lifecycle events between windows
+ */
+const NOTICE_LIFECYCLE_EVENT = 'tauri-notice://lifecycle'
+
+/**
+ * Events after which a notice is no longer showing
+ */
+const FINAL_EVENTS: NoticeEventType[] = ['closed', 'hidden', 'expired']
+
+/**
+ * A subscriber and the event types it wants (all when omitted)
+ */
+interface NoticeEventSubscription {
+  handler: (event: NoticeEvent) => void
+  types?: NoticeEventType[]
+}
+
+const subscriptions = new Set<NoticeEventSubscription>()
+
+/**
+ * When each notice started showing, for event durations
+ */
+const shownAt = new Map<string, number>()
+
+/**
+ * Unlisten function for the cross-window listener, active while this window has subscribers
+ */
+let windowListener: Promise<() => void> | null = null
+
+/**
+ * Label of this window, used to skip our own events when they come back from other windows
+ */
+const getSourceLabel = (): string => {
+  try {
+    return getWindowAdapter().getCurrentLabel()
+  } catch {
+    return 'unknown'
+  }
+}
+
+/**
+ * Record timing and pass an event to this window's subscribers
+ * @param event - Event to deliver
+ */
+const dispatch = (event: NoticeEvent): void => {
+  const id = String(event.message.id)
+  if (event.type === 'shown') {
+    shownAt.set(id, event.timestamp)
+  } else if (FINAL_EVENTS.includes(event.type)) {
+    shownAt.delete(id)
+  }
+
+  subscriptions.forEach(({ handler, types }) => {
+    if (types && !types.includes(event.type)) return
+    try {
+      handler(event)
+    } catch (error) {
+      noticeLog.error('Notice event handler failed', { messageId: id, event: event.type, error })
+    }
+  })
+}
+
+/**
+ * Emit a lifecycle event to subscribers in this window and in every other window
+ * Never throws; delivery to other windows happens in the background
+ * @param type - Event type
+ * @param message - Message concerned
+ * @param details - Extra event fields (action, error)
+ */
+export const emitNoticeEvent = (
+  type: NoticeEventType,
+  message: MessageType,
+  details: Pick<NoticeEvent, 'action' | 'error'> = {}
+): void => {
+  const timestamp = Date.now()
+  const startedAt = type === 'shown' ? undefined : shownAt.get(String(message.id))
+  const event: NoticeEvent = {
+    type,
+    message,
+    timestamp,
+    ...(startedAt !== undefined && { durationMs: timestamp - startedAt }),
+    ...details,
+    source: getSourceLabel(),
+  }
+
+  dispatch(event)
+  getWindowAdapter().emit(NOTICE_LIFECYCLE_EVENT, event).catch((error) =>
+    noticeLog.warn('Failed to broadcast notice event', { messageId: String(message.id), event: type, error })
+  )
+}
+
+/**
+ * Subscribe to notice lifecycle events from every window
+ * @param handler - Called with each event
+ * @param types - Only deliver these event types (all when omitted)
+ * @returns Function that stops the subscription
+ */
+export const onNoticeEvent = (
+  handler: (event: NoticeEvent) => void,
+  types?: NoticeEventType | NoticeEventType[]
+): (() => void) => {
+  const subscription: NoticeEventSubscription = {
+    handler,
+    types: types === undefined ? undefined : Array.isArray(types) ? types : [types],
+  }
+  subscriptions.add(subscription)
+
+  if (!windowListener) {
+    const ownLabel = getSourceLabel()
+    windowListener = getWindowAdapter().listen<NoticeEvent>(NOTICE_LIFECYCLE_EVENT, (event) => {
+      if (event.source !== ownLabel) {
+        dispatch(event)
+      }
+    })
+  }
+
+  return () => {
+    subscriptions.delete(subscription)
+    if (subscriptions.size === 0 && windowListener) {
+      windowListener.then((unlisten) => unlisten())
+      windowListener = null
+    }
+  }
+}
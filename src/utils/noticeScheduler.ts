@@ -0,0 +1,123 @@
+import type { MessageType } from '../types/message'
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { markAsExpired } from './db'
+import { closeNoticeWindow } from './noticeWindow'
+import { emitNoticeEvent } from './noticeEvents'
+import { getNextWakeDelay, isExpired } from './schedule'
+import { getNextQuietHoursBoundary } from './quietHours'
+import { getNoticeConfig, subscribeNoticeConfig } from '../config/noticeConfig'
+
+/**
+ * Pending wake-up timer
+ */
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+
+/**
+ * Removes the scheduler's store and config subscriptions, set while it runs
+ */
+let stopScheduler: (() => void) | null = null
+
+/**
+ * Close windows whose message expired, update Do Not Disturb and away state, and show anything that became due
+ */
+const runScheduledWork = async (): Promise<void> => {
+  await useMessageQueueStore.getState().refreshDoNotDisturb()
+  await useMessageQueueStore.getState().refreshAway()
+
+  const store = useMessageQueueStore.getState()
+  const now = Date.now()
+
+  const expiredShowing = store.showingMessages.filter((m: MessageType) => isExpired(m, now))
+  await Promise.all(
+    expiredShowing.map(async (m: MessageType) => {
+      await markAsExpired(m.id, store.scope)
+      emitNoticeEvent('expired', m)
+      await closeNoticeWindow(m.id)
+    })
+  )
+
+  await store.showNext()
+}
+
+/**
+ * Milliseconds until the user counts as away, or null if idle detection is off or they already are
+ */
+const getIdleDelay = (): number | null => {
+  const { idleTimeoutMs } = getNoticeConfig()
+  const { isAway, lastActivityAt } = useMessageQueueStore.getState()
+  if (idleTimeoutMs <= 0 || isAway) return null
+  return Math.max(0, lastActivityAt + idleTimeoutMs - Date.now())
+}
+
+/**
+ * Arm a single timer for the nearest showAt, expiresAt, quiet hours boundary or idle deadline
+ */
+const scheduleWake = (): void => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+  if (!stopScheduler) return
+
+  const { queue, showingMessages } = useMessageQueueStore.getState()
+  const delays = [
+    getNextWakeDelay(queue, showingMessages),
+    getNextQuietHoursBoundary(getNoticeConfig().quietHours),
+    getIdleDelay(),
+  ].filter((d): d is number => d !== null)
+  if (delays.length === 0) return
+  const delay = Math.min(...delays)
+
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null
+    runScheduledWork().finally(scheduleWake)
+  }, delay)
+}
+
+/**
+ * Start watching the queue for scheduled deliveries and expiries
+ * Safe to call more than once
+ */
+export const startNoticeScheduler = (): void => {
+  if (stopScheduler) return
+
+  const unsubscribeStore = useMessageQueueStore.subscribe((state, previousState) => {
+    if (
+      state.queue !== previousState.queue ||
+      state.showingMessages !== previousState.showingMessages ||
+      state.isAway !== previousState.isAway
+    ) {
+      scheduleWake()
+    }
+  })
+
+  // Quiet hours or the idle timeout may have changed
+  const unsubscribeConfig = subscribeNoticeConfig((config, previousConfig) => {
+    if (
+      config.quietHours !== previousConfig.quietHours ||
+      config.idleTimeoutMs !== previousConfig.idleTimeoutMs
+    ) {
+      runScheduledWork().finally(scheduleWake)
+    }
+  })
+
+  stopScheduler = () => {
+    unsubscribeStore()
+    unsubscribeConfig()
+  }
+
+  runScheduledWork().finally(scheduleWake)
+}
+
+/**
+ * Stop the scheduler and cancel its pending wake-up
+ * startNoticeScheduler may be called again afterwards
+ */
+export const stopNoticeScheduler = (): void => {
+  stopScheduler?.()
+  stopScheduler = null
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+}
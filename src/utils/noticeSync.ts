@@ -0,0 +1,244 @@
+import type { MessageType, NoticeEvent } from '../types/message'
+import type { NoticeAck, NoticeServerEvent, NoticeSync, NoticeSyncOptions } from '../types/sync'
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { getMetaValue, setMetaValue, updateMessage } from './db'
+import { onNoticeEvent } from './noticeEvents'
+import { isQueueOwner } from './queueOwner'
+import { isExpired } from './schedule'
+import { noticeLog } from './logger'
+
+/**
+ * Meta key of the last cursor handled for a scope
+ */
+const cursorKey = (scope: string): string => `sync.cursor.${scope}`
+
+/**
+ * Meta key of the delivered notices still waiting for their read receipt
+ */
+const unreadKey = (scope: string): string => `sync.unread.${scope}`
+
+/**
+ * Apply a server event other than 'notice' to the queue
+ * @param event - The event
+ */
+const applyServerEvent = async (
+  event: Exclude<NoticeServerEvent, { type: 'notice' }>
+): Promise<void> => {
+  const store = useMessageQueueStore.getState()
+
+  switch (event.type) {
+    case 'update': {
+      // Only reopen the queue for notices still in it; others are just updated in history
+      const isTarget = (m: MessageType) => m.id === event.message.id
+      if (store.queue.some(isTarget) || store.showingMessages.some(isTarget)) {
+        return store.enqueue({ ...event.message, dedupePolicy: 'update' })
+      }
+      return updateMessage(event.message.id, event.message)
+    }
+    case 'hide':
+      return store.hideMessage(event.messageId)
+    case 'hideAll': {
+      // Hidden like single hides, so they stay in history; queued ones first so none opens meanwhile
+      const ids = [...store.queue, ...store.showingMessages].map((m: MessageType) => m.id)
+      for (const id of ids) {
+        await useMessageQueueStore.getState().hideMessage(id)
+      }
+      return
+    }
+  }
+}
+
+/**
+ * Split events into runs to apply together: consecutive notices form one run, any other event its own
+ * @param events - Events in feed order
+ * @returns The runs, in order
+ */
+const groupServerEvents = (events: NoticeServerEvent[]): NoticeServerEvent[][] => {
+  const groups: NoticeServerEvent[][] = []
+  for (const event of events) {
+    const last = groups[groups.length - 1]
+    if (event.type === 'notice' && last?.[0].type === 'notice') {
+      last.push(event)
+    } else {
+      groups.push([event])
+    }
+  }
+  return groups
+}
+
+/**
+ * Create a sync that feeds server events into the notice queue
+ * Run it in the queue owner window after initializeNoticeSystem. Events are applied in order,
+ * notices arriving together (e.g. a backlog after reconnecting) are enqueued as one batch,
+ * the last cursor is saved per scope so a restart resumes where it left off, and receipts go
+ * back to the server once a notice is queued ('delivered') and once the user closed it ('read').
+ * A scope switch reconnects from the new scope's cursor
+ * @param options - Transport and receipt settings
+ * @returns The sync; call start() to connect
+ */
+export const createNoticeSync = (options: NoticeSyncOptions): NoticeSync => {
+  const { transport, ackDelivery = true, ackRead = true } = options
+  let cursor: string | null = null
+  let scope = ''
+  let running = false
+  let eventChain: Promise<void> = Promise.resolve()
+  const pending: Array<{ event: NoticeServerEvent; connectionId: number }> = []
+  let unread = new Set<string>()
+  let stopReadReceipts: (() => void) | null = null
+  let stopScopeWatch: (() => void) | null = null
+  // Bumped on every connect, so events still arriving from an earlier scope's connection are dropped
+  let connectionId = 0
+
+  const acknowledge = (ack: NoticeAck) => {
+    transport
+      .acknowledge(ack)
+      .catch((error) => noticeLog.warn('Failed to send notice receipt', { ...ack, error }))
+  }
+
+  const saveUnread = () =>
+    setMetaValue(unreadKey(scope), JSON.stringify(Array.from(unread))).catch((error) =>
+      noticeLog.error('Failed to save notice receipts', { error })
+    )
+
+  // Apply a run of events; a run of notices is enqueued with one database write
+  const applyGroup = async (events: NoticeServerEvent[]): Promise<void> => {
+    const notices = events.flatMap((event) => (event.type === 'notice' ? [event.message] : []))
+    try {
+      if (notices.length > 0) {
+        await useMessageQueueStore.getState().enqueueMany(notices)
+      } else {
+        await applyServerEvent(events[0] as Exclude<NoticeServerEvent, { type: 'notice' }>)
+      }
+    } catch (error) {
+      // A failed run doesn't block the ones after it; its cursor is not saved
+      noticeLog.error('Failed to apply server events', {
+        type: events[0].type,
+        count: events.length,
+        error,
+      })
+      return
+    }
+
+    const lastCursor = events.reduce<string | undefined>(
+      (found, event) => event.cursor ?? found,
+      undefined
+    )
+    noticeLog.debug('Applied server events', {
+      type: events[0].type,
+      count: events.length,
+      cursor: lastCursor,
+    })
+
+    if (notices.length > 0) {
+      if (ackDelivery) notices.forEach((m) => acknowledge({ type: 'delivered', messageId: m.id }))
+      if (ackRead) {
+        // Notices dropped on arrival as expired never close, so there is nothing to wait for
+        notices.filter((m) => !isExpired(m)).forEach((m) => unread.add(m.id))
+        await saveUnread()
+      }
+    }
+
+    if (lastCursor !== undefined) {
+      cursor = lastCursor
+      await setMetaValue(cursorKey(scope), cursor).catch((error) =>
+        noticeLog.error('Failed to save notice sync cursor', { cursor, error })
+      )
+    }
+  }
+
+  // Apply everything handed over since the last run, dropping events of an earlier connection
+  const applyPending = async (): Promise<void> => {
+    const id = connectionId
+    const events = pending
+      .splice(0)
+      .filter((entry) => entry.connectionId === id)
+      .map((entry) => entry.event)
+    for (const group of groupServerEvents(events)) {
+      if (!running || id !== connectionId) return
+      await applyGroup(group)
+    }
+  }
+
+  const handleEvent = (event: NoticeServerEvent, eventConnectionId: number): Promise<void> => {
+    // Events arriving while earlier ones are applied wait and are applied together
+    if (pending.length === 0) {
+      eventChain = eventChain.then(applyPending)
+    }
+    pending.push({ event, connectionId: eventConnectionId })
+    return eventChain
+  }
+
+  // Stop waiting on a notice once it is gone; only ones the user dismissed count as read
+  const handleSettled = (event: NoticeEvent) => {
+    const messageId = event.message.id
+    if (!running || !unread.delete(messageId)) return
+    if (event.type === 'closed' || event.type === 'actionTaken') {
+      acknowledge({ type: 'read', messageId })
+    }
+    void saveUnread()
+  }
+
+  // Load the current scope's cursor and receipts and connect with them
+  const connect = async (): Promise<void> => {
+    const id = ++connectionId
+    const nextScope = useMessageQueueStore.getState().scope
+    const savedCursor = (await getMetaValue(cursorKey(nextScope))) ?? null
+    const savedUnread: string[] = JSON.parse((await getMetaValue(unreadKey(nextScope))) ?? '[]')
+    if (!running || id !== connectionId) return
+
+    scope = nextScope
+    cursor = savedCursor
+    unread = new Set(savedUnread)
+
+    noticeLog.info('Starting notice sync', { scope, cursor })
+    transport.connect({
+      getCursor: () => cursor,
+      onEvent: (event) => handleEvent(event, id),
+      onError: (error) => noticeLog.warn('Notice sync connection problem', { error }),
+    })
+  }
+
+  return {
+    start: async () => {
+      if (running) return
+      if (!isQueueOwner()) {
+        noticeLog.warn('Notice sync only runs in the queue owner window')
+        return
+      }
+      running = true
+
+      if (ackRead) {
+        stopReadReceipts = onNoticeEvent(handleSettled, [
+          'closed',
+          'actionTaken',
+          'hidden',
+          'expired',
+          'failed',
+        ])
+      }
+
+      stopScopeWatch = useMessageQueueStore.subscribe((state, previousState) => {
+        if (state.scope === previousState.scope) return
+        noticeLog.info('Reconnecting notice sync for another scope', { from: scope, to: state.scope })
+        transport.disconnect()
+        connect().catch((error) => noticeLog.error('Failed to reconnect notice sync', { error }))
+      })
+
+      await connect()
+    },
+
+    stop: () => {
+      if (!running) return
+      running = false
+      connectionId++
+      stopReadReceipts?.()
+      stopReadReceipts = null
+      stopScopeWatch?.()
+      stopScopeWatch = null
+      transport.disconnect()
+      noticeLog.info('Stopped notice sync', { scope, cursor })
+    },
+
+    getCursor: () => cursor,
+  }
+}
@@ -0,0 +1,74 @@
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { initializeDatabase } from './db'
+import {
+  initializeNoticeWindowSystem,
+  adoptNoticeWindows,
+  stopNoticeWindowSystem,
+} from './noticeWindow'
+import { startNoticeScheduler, stopNoticeScheduler } from './noticeScheduler'
+import { startActivityTracker, stopActivityTracker } from './activityTracker'
+import { noticeLog } from './logger'
+import { claimQueueOwnership } from './queueOwner'
+import { startNoticeCommandHandler, stopNoticeCommandHandler } from './noticeCommands'
+import { cancelNoticeActionWaiters } from './noticeActions'
+import { getNoticeConfig } from '../config/noticeConfig'
+
+/**
+ * Initialize the complete notice window system
+ * Call this once during app startup (e.g., in App.tsx or main layout)
+ * The queue runs in the owner window (config.ownerLabel); in any other window this only
+ * sets up storage and activity tracking, and queue calls are forwarded to the owner
+ * 
+ * @example
+ * ```typescript
+ * import { initializeNoticeSystem } from 'tauri-notice-window'
+ * 
+ * useEffect(() => {
+ *   initializeNoticeSystem()
+ * }, [])
+ * ```
+ */
+export const initializeNoticeSystem = async (): Promise<void> => {
+  // Initialize storage
+  initializeDatabase()
+
+  // Track whether the user is at the machine
+  startActivityTracker()
+
+  if (!(await claimQueueOwnership())) {
+    noticeLog.info('Notice queue runs in another window', { ownerLabel: getNoticeConfig().ownerLabel })
+    return
+  }
+
+  // Run commands forwarded by other windows
+  startNoticeCommandHandler()
+
+  // Set up window system (store subscription)
+  initializeNoticeWindowSystem()
+
+  // Reattach notice windows that survived a reload of this window
+  await adoptNoticeWindows()
+
+  // Wake up for scheduled deliveries and expiries
+  startNoticeScheduler()
+
+  // Load pending messages from database, requeuing notices left open by a crash
+  const { initializeFromDatabase } = useMessageQueueStore.getState()
+  await initializeFromDatabase()
+
+  noticeLog.info('Tauri Notice System initialized')
+}
+
+/**
+ * Undo initializeNoticeSystem in this window, so it can be initialized again
+ * Open notice windows, the store and stored messages are left as they are
+ */
+export const stopNoticeSystem = async (): Promise<void> => {
+  stopNoticeScheduler()
+  stopNoticeWindowSystem()
+  await stopNoticeCommandHandler()
+  stopActivityTracker()
+  cancelNoticeActionWaiters()
+
+  noticeLog.info('Tauri Notice System stopped')
+}
@@ -1,93 +1,332 @@
-import { WebviewWindow } from '@tauri-apps/api/webviewWindow'
-import { primaryMonitor } from '@tauri-apps/api/window'
 import type { MessageType, WindowPosition } from '../types/message'
+import type {
+  NoticeMonitorArea,
+  NoticeWindowCreateOptions,
+  NoticeWindowHandle,
+} from '../types/windowAdapter'
 import { useMessageQueueStore } from '../stores/messageQueueStore'
-import { markAsShown } from './db'
-import { getNoticeConfig } from '../config/noticeConfig'
+import { markAsShown, markAsFailed, getMessage } from './db'
+import { getNoticeConfig, getNoticeTypeConfig } from '../config/noticeConfig'
+import { settleNoticeAction } from './noticeActions'
+import { emitNoticeEvent } from './noticeEvents'
+import { noticeLog } from './logger'
+import { getWindowAdapter } from './windowAdapter'
+import { isQueueOwner, sendNoticeCommand } from './queueOwner'
 
 /**
  * Map of active notice windows
  */
-const activeWindows = new Map<string, WebviewWindow>()
+const activeWindows = new Map<string, NoticeWindowHandle>()
 
 /**
- * Calculate window position based on position preset or custom coordinates
- * @param width - Window width
- * @param height - Window height
- * @param positionConfig - Position configuration
- * @returns Object with x and y coordinates
+ * Size and position settings of each active window, in the order they were opened
  */
-const calculateWindowPosition = async (
-  width: number,
-  height: number,
-  positionConfig?: WindowPosition
-): Promise<{ x: number; y: number }> => {
-  const padding = positionConfig?.padding ?? 20
+const windowLayouts = new Map<string, { width: number; height: number; windowPosition?: WindowPosition }>()
 
-  // If custom coordinates provided, use them directly
+/**
+ * Get the key of the stack a window belongs to
+ * Windows with explicit coordinates are never stacked
+ * @param positionConfig - Position configuration
+ * @returns Stack key, or null if the window is not stacked
+ */
+const getStackKey = (positionConfig?: WindowPosition): string | null => {
   if (positionConfig?.x !== undefined && positionConfig?.y !== undefined) {
-    return { x: positionConfig.x, y: positionConfig.y }
+    return null
   }
+  return [
+    positionConfig?.monitor ?? 'primary',
+    positionConfig?.position ?? 'right-bottom',
+    positionConfig?.padding ?? 20,
+  ].join(':')
+}
+
+/**
+ * Find a window's place in its stack
+ * Windows stack away from the anchored edge and start a new column beside the previous one
+ * once the next window would leave the work area; when no column is left either, they start
+ * over at the first column, on top of the windows there
+ * @param stackKey - Key of the stack
+ * @param id - Message ID of the window; only windows opened before it are counted
+ * @param fitsAlong - Whether a window of the given height fits at the given offset in a column
+ * @param fitsAcross - Whether a column of the given width fits at the given column offset
+ * @returns Offset along the column and distance of the column from the anchored side, in logical pixels
+ */
+const getStackSlot = (
+  stackKey: string,
+  id: string,
+  fitsAlong: (offset: number, height: number) => boolean,
+  fitsAcross: (offset: number, width: number) => boolean
+): { offset: number; columnOffset: number } => {
+  const { stackGap } = getNoticeConfig()
+  let offset = 0
+  let columnOffset = 0
+  let columnWidth = 0
 
-  // Get screen dimensions
-  let screenWidth = 1920
-  let screenHeight = 1080
+  for (const [layoutId, layout] of windowLayouts) {
+    if (getStackKey(layout.windowPosition) !== stackKey) continue
+
+    // A window too tall for any column still gets one of its own
+    if (offset > 0 && !fitsAlong(offset, layout.height)) {
+      const nextColumn = columnOffset + columnWidth + stackGap
+      columnOffset = fitsAcross(nextColumn, layout.width) ? nextColumn : 0
+      offset = 0
+      columnWidth = 0
+    }
+    if (layoutId === id) break
+
+    offset += layout.height + stackGap
+    columnWidth = Math.max(columnWidth, layout.width)
+  }
+  return { offset, columnOffset }
+}
 
+/**
+ * Get the usable area of a monitor in physical pixels
+ * @param selector - Monitor selector
+ * @returns Area origin, size and scale factor
+ */
+const getMonitorArea = async (selector?: WindowPosition['monitor']): Promise<NoticeMonitorArea> => {
   try {
-    const monitor = await primaryMonitor()
-    if (monitor?.size) {
-      screenWidth = monitor.size.width
-      screenHeight = monitor.size.height
+    const area = await getWindowAdapter().getMonitorArea(selector)
+    if (area) {
+      return area
     }
   } catch (error) {
-    console.warn('Failed to get monitor info, using defaults:', error)
+    noticeLog.warn('Failed to get monitor info, using defaults', { monitor: selector, error })
+  }
+
+  return { left: 0, top: 0, width: 1920, height: 1080, scaleFactor: 1 }
+}
+
+/**
+ * Calculate window position based on position preset or custom coordinates
+ * Sizes and offsets are logical pixels and are scaled for the target monitor
+ * @param logicalWidth - Window width
+ * @param logicalHeight - Window height
+ * @param positionConfig - Position configuration
+ * @param stackId - Message ID of a stacked window, placed after the windows opened before it
+ * @returns Object with x and y coordinates (physical pixels)
+ */
+const calculateWindowPosition = async (
+  logicalWidth: number,
+  logicalHeight: number,
+  positionConfig?: WindowPosition,
+  stackId?: string
+): Promise<{ x: number; y: number }> => {
+  // Custom coordinates are relative to the chosen monitor, or to the primary one's origin
+  // and scale when none is given (matching how Tauri places absolute logical coordinates)
+  if (positionConfig?.x !== undefined && positionConfig?.y !== undefined) {
+    const area = await getMonitorArea(positionConfig.monitor)
+    const scale = area.scaleFactor ?? 1
+    const origin = positionConfig.monitor === undefined ? { left: 0, top: 0 } : area
+    return {
+      x: Math.round(origin.left + positionConfig.x * scale),
+      y: Math.round(origin.top + positionConfig.y * scale),
+    }
   }
 
+  const area = await getMonitorArea(positionConfig?.monitor)
+  const { left, top, width: areaWidth, height: areaHeight } = area
+  const scale = area.scaleFactor ?? 1
+  const width = logicalWidth * scale
+  const height = logicalHeight * scale
+  const logicalPadding = positionConfig?.padding ?? 20
+  const padding = logicalPadding * scale
+  const right = left + areaWidth
+  const bottom = top + areaHeight
+
   // Calculate position based on preset
   const position = positionConfig?.position ?? 'right-bottom'
 
+  // Centered windows stack downwards and rightwards from the middle, the others from their corner
+  const fitsIn = (logicalRoom: number) =>
+    position === 'center'
+      ? (offset: number, size: number) => offset + size / 2 <= logicalRoom / 2 - logicalPadding
+      : (offset: number, size: number) => offset + size <= logicalRoom - 2 * logicalPadding
+  const stackKey = getStackKey(positionConfig)
+  const slot =
+    stackKey && stackId
+      ? getStackSlot(stackKey, stackId, fitsIn(areaHeight / scale), fitsIn(areaWidth / scale))
+      : { offset: 0, columnOffset: 0 }
+  const stackOffset = slot.offset * scale
+  const columnOffset = slot.columnOffset * scale
+
+  // Physical positions are whole pixels
+  const place = (x: number, y: number) => ({ x: Math.round(x), y: Math.round(y) })
+
   switch (position) {
     case 'right-bottom':
-      return {
-        x: screenWidth - width - padding,
-        y: screenHeight - height - padding,
-      }
+      return place(right - width - padding - columnOffset, bottom - height - padding - stackOffset)
 
     case 'right-top':
-      return {
-        x: screenWidth - width - padding,
-        y: padding,
-      }
+      return place(right - width - padding - columnOffset, top + padding + stackOffset)
 
     case 'left-bottom':
-      return {
-        x: padding,
-        y: screenHeight - height - padding,
-      }
+      return place(left + padding + columnOffset, bottom - height - padding - stackOffset)
 
     case 'left-top':
-      return {
-        x: padding,
-        y: padding,
-      }
+      return place(left + padding + columnOffset, top + padding + stackOffset)
 
     case 'center':
-      return {
-        x: (screenWidth - width) / 2,
-        y: (screenHeight - height) / 2,
-      }
+      return place(
+        left + (areaWidth - width) / 2 + columnOffset,
+        top + (areaHeight - height) / 2 + stackOffset
+      )
 
     default:
       // Default to right-bottom
-      return {
-        x: screenWidth - width - padding,
-        y: screenHeight - height - padding,
-      }
+      return place(right - width - padding - columnOffset, bottom - height - padding - stackOffset)
+  }
+}
+
+/**
+ * Open a window and wait until Tauri confirms it exists
+ * @param label - Window label
+ * @param options - Window options
+ * @param timeoutMs - How long to wait for confirmation
+ * @returns The created window
+ * @throws Error if Tauri reports an error, the constructor throws, or no confirmation arrives in time
+ */
+const openWindow = (
+  label: string,
+  options: NoticeWindowCreateOptions,
+  timeoutMs: number
+): Promise<NoticeWindowHandle> => {
+  return new Promise((resolve, reject) => {
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      reject(new Error(`Window creation timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    getWindowAdapter()
+      .createWindow(label, options)
+      .then((noticeWindow) => {
+        if (!timedOut) return resolve(noticeWindow)
+
+        // The attempt already failed, so a window confirmed this late must not stay open
+        noticeLog.warn('Destroying notice window confirmed after its timeout', { windowLabel: label })
+        noticeWindow.destroy().catch((error) =>
+          noticeLog.warn('Failed to destroy late notice window', { windowLabel: label, error })
+        )
+      }, reject)
+      .finally(() => clearTimeout(timer))
+  })
+}
+
+/**
+ * Close a window left behind by a failed attempt (e.g. one that was confirmed after its timeout)
+ * @param label - Window label
+ */
+const discardWindow = async (label: string): Promise<void> => {
+  try {
+    const leftover = await getWindowAdapter().getWindow(label)
+    await leftover?.destroy()
+  } catch {
+    // Nothing to clean up
   }
 }
 
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Check whether a message still holds a showing slot
+ * @param messageId - Message ID
+ */
+const isStillShowing = (messageId: string): boolean =>
+  useMessageQueueStore.getState().showingMessages.some((m) => String(m.id) === messageId)
+
+/**
+ * Give up on a message whose window could not be opened and move on to the next one
+ * @param message - The message
+ * @param reason - Last error
+ * @param scope - User/account the message belongs to
+ */
+const failNoticeWindow = async (
+  message: MessageType,
+  reason: string,
+  scope: string
+): Promise<void> => {
+  const normalizedId = String(message.id)
+
+  await markAsFailed(normalizedId, reason, scope)
+  emitNoticeEvent('failed', message, { error: reason })
+  await settleNoticeAction(normalizedId)
+
+  windowLayouts.delete(normalizedId)
+  const store = useMessageQueueStore.getState()
+  store.removeActiveWindow(normalizedId)
+  if (isStillShowing(normalizedId)) {
+    store.clearCurrent(normalizedId)
+  }
+}
+
+/**
+ * Track an open notice window and settle its message once the window is destroyed
+ * @param noticeWindow - The window
+ * @param message - Message shown in it
+ * @param width - Window width
+ * @param height - Window height
+ * @param scope - User/account the message belongs to
+ */
+const trackNoticeWindow = (
+  noticeWindow: NoticeWindowHandle,
+  message: MessageType,
+  width: number,
+  height: number,
+  scope: string
+): void => {
+  const normalizedId = String(message.id)
+
+  activeWindows.set(normalizedId, noticeWindow)
+  windowLayouts.set(normalizedId, { width, height, windowPosition: message.windowPosition })
+  useMessageQueueStore.getState().addActiveWindow(normalizedId)
+
+  noticeWindow.onDestroyed(async () => {
+    // Clean up tracking
+    activeWindows.delete(normalizedId)
+    windowLayouts.delete(normalizedId)
+    useMessageQueueStore.getState().removeActiveWindow(normalizedId)
+
+    // Close the gap left in the stack
+    reflowNoticeWindows()
+
+    const state = useMessageQueueStore.getState()
+
+    // A preempted or switched-out message is pending again and stays that way,
+    // and a message that was hidden or expired keeps that status
+    const stored = await getMessage(normalizedId, scope)
+    const status = stored?.queueStatus
+    const requeued =
+      state.queue.some((m) => String(m.id) === normalizedId) || status === 'pending'
+
+    if (!requeued && status === 'showing') {
+      // Mark as shown in database
+      await markAsShown(normalizedId, scope)
+      emitNoticeEvent('closed', message)
+    }
+
+    if (stored && status === 'snoozed') {
+      // A snoozed message goes back in its account's queue until its wake-up time
+      if (stored.scope === state.scope) {
+        await state.requeueMessage(stored)
+      }
+    } else if (!requeued) {
+      await settleNoticeAction(normalizedId)
+    }
+
+    // Free the slot and show next, unless another notice already took over
+    const latest = useMessageQueueStore.getState()
+    if (latest.showingMessages.some((m) => String(m.id) === normalizedId)) {
+      latest.clearCurrent(normalizedId)
+    }
+  })
+}
+
 /**
  * Create a new notice window for the given message
+ * Creation is retried with backoff (config.windowRetry); after the last failed attempt
+ * the message is marked 'failed' and the next one is shown
  * @param message - Message to display in the window
  */
 export const createNoticeWindow = async (message: MessageType): Promise<void> => {
@@ -96,60 +335,183 @@ export const createNoticeWindow = async (message: MessageType): Promise<void> =>
 
   // Check if window already exists
   if (store.isWindowActive(normalizedId)) {
-    console.log(`Notice window already open for message: ${normalizedId}`)
+    noticeLog.debug('Notice window already open', { messageId: normalizedId })
     return
   }
 
   const config = getNoticeConfig()
   const windowLabel = `notice-${normalizedId}`
-  const windowUrl = `${config.routePrefix}/${message.type}?id=${message.id}`
+  const scope = store.scope
+  // The notice page finds its message through the URL, so it needs no config of its own
+  const databaseParam =
+    config.storage === 'indexeddb' ? `&db=${encodeURIComponent(config.databaseName)}` : ''
+  const windowUrl = `${config.routePrefix}/${message.type}?id=${message.id}&scope=${encodeURIComponent(scope)}${databaseParam}`
 
   // Determine window dimensions
   const width = message.min_width || config.defaultWidth
   const height = message.min_height || config.defaultHeight
 
-  // Calculate window position
-  const { x, y } = await calculateWindowPosition(width, height, message.windowPosition)
+  // Reserve a place in the stack before anything is awaited, so notices opened together
+  // don't land on top of each other; released again if the window never opens
+  windowLayouts.set(normalizedId, { width, height, windowPosition: message.windowPosition })
+  const { x, y } = await calculateWindowPosition(width, height, message.windowPosition, normalizedId)
 
-  try {
-    // Create new webview window
-    const noticeWindow = new WebviewWindow(windowLabel, {
-      url: windowUrl,
-      title: message.title,
-      width,
-      height,
-      x,
-      y,
-      resizable: true,
-      decorations: true,
-      skipTaskbar: false,
-      alwaysOnTop: true,
-    })
+  // A focused notice pauses its countdown, so auto-closing ones don't take focus unless asked to
+  const autoCloses = (message.autoCloseMs ?? config.defaultAutoCloseMs) > 0
 
-    // Track active window
-    activeWindows.set(normalizedId, noticeWindow)
-    store.addActiveWindow(normalizedId)
+  const options = {
+    url: windowUrl,
+    title: message.title,
+    width,
+    height,
+    x,
+    y,
+    resizable: true,
+    decorations: true,
+    skipTaskbar: false,
+    alwaysOnTop: true,
+    focus: !autoCloses,
+    ...config.defaultWindowOptions,
+    ...getNoticeTypeConfig(message.type).windowOptions,
+    ...message.windowOptions,
+  }
 
-    // Register destroy event listener
-    noticeWindow.once('tauri://destroyed', async () => {
-      // Clean up tracking
-      activeWindows.delete(normalizedId)
-      store.removeActiveWindow(normalizedId)
+  const { attempts, delayMs, backoffFactor, timeoutMs } = config.windowRetry
+  let noticeWindow: NoticeWindowHandle | null = null
+  let lastError = ''
 
-      // Mark as shown in database
-      await markAsShown(normalizedId)
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      noticeWindow = await openWindow(windowLabel, options, timeoutMs)
+      break
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error)
+      noticeLog.warn('Failed to create notice window', {
+        messageId: normalizedId,
+        windowLabel,
+        attempt,
+        attempts,
+        error,
+      })
+      await discardWindow(windowLabel)
+    }
 
-      // Show next message
-      store.clearCurrent()
-    })
+    // Stop retrying if the message was hidden, expired or put away meanwhile
+    if (!isStillShowing(normalizedId)) {
+      windowLayouts.delete(normalizedId)
+      return
+    }
+
+    if (attempt < attempts) {
+      await sleep(delayMs * Math.pow(backoffFactor, attempt - 1))
+    }
+  }
 
-    console.log(`Created notice window: ${windowLabel}`)
+  if (!noticeWindow) {
+    noticeLog.error('Giving up on notice window', { messageId: normalizedId, windowLabel, error: lastError })
+    await failNoticeWindow(message, lastError, scope)
+    return
+  }
+
+  // The message may have been hidden or put away while the window was opening
+  if (!isStillShowing(normalizedId)) {
+    windowLayouts.delete(normalizedId)
+    await noticeWindow.close()
+    return
+  }
+
+  trackNoticeWindow(noticeWindow, message, width, height, scope)
+
+  noticeLog.debug('Created notice window', { messageId: normalizedId, windowLabel })
+  emitNoticeEvent('shown', message)
+}
+
+/**
+ * Take over notice windows still open from before the main window was reloaded
+ * A window whose message is still 'showing' in the current scope is tracked again and keeps its slot;
+ * any other leftover notice window is closed. Call before the queue is loaded from the database
+ * @returns IDs of the adopted messages
+ */
+export const adoptNoticeWindows = async (): Promise<string[]> => {
+  let windows: NoticeWindowHandle[]
+  try {
+    windows = await getWindowAdapter().getAllWindows()
   } catch (error) {
-    console.error('Failed to create notice window:', error)
-    // Clean up on error
-    store.removeActiveWindow(normalizedId)
-    store.clearCurrent()
+    noticeLog.warn('Failed to list open windows', { error })
+    return []
+  }
+
+  const config = getNoticeConfig()
+  const adopted: string[] = []
+
+  for (const noticeWindow of windows) {
+    if (!noticeWindow.label.startsWith('notice-')) continue
+
+    const id = noticeWindow.label.slice('notice-'.length)
+    if (activeWindows.has(id)) continue
+
+    const store = useMessageQueueStore.getState()
+    const stored = await getMessage(id, store.scope)
+    if (stored?.queueStatus !== 'showing') {
+      noticeLog.info('Closing leftover notice window', { messageId: id, windowLabel: noticeWindow.label })
+      await noticeWindow.close().catch((error) =>
+        noticeLog.warn('Failed to close leftover notice window', {
+          messageId: id,
+          windowLabel: noticeWindow.label,
+          error,
+        })
+      )
+      continue
+    }
+
+    // Register the window before the message starts showing so no second window is created
+    trackNoticeWindow(
+      noticeWindow,
+      stored,
+      stored.min_width || config.defaultWidth,
+      stored.min_height || config.defaultHeight,
+      store.scope
+    )
+    store.setCurrentMessage(stored)
+    adopted.push(id)
+    noticeLog.info('Adopted open notice window', { messageId: id, windowLabel: noticeWindow.label })
   }
+
+  if (adopted.length > 0) {
+    useMessageQueueStore.getState().setIsProcessing(true)
+  }
+  return adopted
+}
+
+/**
+ * Move open notice windows so each stack is contiguous again
+ * Called after a window closes
+ */
+const reflowNoticeWindows = async (): Promise<void> => {
+  const moves = Array.from(windowLayouts.entries()).map(async ([id, layout]) => {
+    const noticeWindow = activeWindows.get(id)
+    if (!noticeWindow) return
+
+    if (!getStackKey(layout.windowPosition)) return
+
+    const { x, y } = await calculateWindowPosition(
+      layout.width,
+      layout.height,
+      layout.windowPosition,
+      id
+    )
+
+    try {
+      await noticeWindow.setPosition(x, y)
+    } catch (error) {
+      noticeLog.warn('Failed to reposition notice window', {
+        messageId: id,
+        windowLabel: `notice-${id}`,
+        error,
+      })
+    }
+  })
+  await Promise.all(moves)
 }
 
 /**
@@ -158,15 +520,32 @@ export const createNoticeWindow = async (message: MessageType): Promise<void> =>
  */
 export const closeNoticeWindow = async (messageId: string): Promise<void> => {
   const normalizedId = String(messageId)
-  const window = activeWindows.get(normalizedId)
+
+  // The queue owner tracks the windows and settles the message once its window is gone
+  if (!isQueueOwner()) {
+    await sendNoticeCommand({ type: 'close', messageId: normalizedId })
+    return
+  }
+
+  // Windows opened before a reload may not be tracked yet, so fall back to a label lookup
+  const window =
+    activeWindows.get(normalizedId) ??
+    (await getWindowAdapter().getWindow(`notice-${normalizedId}`))
 
   if (window) {
     try {
       await window.close()
       activeWindows.delete(normalizedId)
-      console.log(`Closed notice window: ${normalizedId}`)
+      noticeLog.debug('Closed notice window', {
+        messageId: normalizedId,
+        windowLabel: `notice-${normalizedId}`,
+      })
     } catch (error) {
-      console.error('Failed to close notice window:', error)
+      noticeLog.error('Failed to close notice window', {
+        messageId: normalizedId,
+        windowLabel: `notice-${normalizedId}`,
+        error,
+      })
     }
   }
 }
@@ -181,26 +560,56 @@ export const closeAllNoticeWindows = async (): Promise<void> => {
   await Promise.all(closePromises)
 }
 
+/**
+ * Removes the window system's store subscription, set while it runs
+ */
+let stopWindowSystem: (() => void) | null = null
+
 /**
  * Initialize the notice window system
- * Sets up store subscription to auto-create windows when currentMessage changes
+ * Sets up store subscription to auto-create windows when messages start showing
+ * Only runs in the queue owner window; safe to call more than once
  */
 export const initializeNoticeWindowSystem = (): void => {
-  let previousMessage: MessageType | null = null
-
-  // Subscribe to store changes and watch for currentMessage updates
-  useMessageQueueStore.subscribe((state) => {
-    const currentMessage = state.currentMessage
-    
-    // Only create window if currentMessage changed and is not null
-    if (currentMessage && currentMessage !== previousMessage) {
-      previousMessage = currentMessage
-      createNoticeWindow(currentMessage)
-    } else if (!currentMessage) {
-      previousMessage = null
-    }
+  if (stopWindowSystem) return
+  if (!isQueueOwner()) {
+    noticeLog.warn('Notice window system only runs in the queue owner window', {
+      ownerLabel: getNoticeConfig().ownerLabel,
+    })
+    return
+  }
+  let previousShowing: MessageType[] = []
+
+  // Subscribe to store changes and watch for showingMessages updates
+  stopWindowSystem = useMessageQueueStore.subscribe((state) => {
+    const showing = state.showingMessages
+    if (showing === previousShowing) return
+
+    const previousIds = new Set(previousShowing.map((m) => m.id))
+    const showingIds = new Set(showing.map((m) => m.id))
+
+    // Close windows whose message stopped showing without its window closing
+    // (preempted back into the queue, or put away by an account switch)
+    previousShowing
+      .filter((m) => !showingIds.has(m.id) && activeWindows.has(String(m.id)))
+      .forEach((m) => closeNoticeWindow(m.id))
+
+    // Create a window for every message that just started showing
+    showing
+      .filter((m) => !previousIds.has(m.id))
+      .forEach((m) => createNoticeWindow(m))
+
+    previousShowing = showing
   })
 
-  console.log('Notice window system initialized')
+  noticeLog.info('Notice window system initialized')
 }
 
+/**
+ * Stop creating and closing windows on store changes
+ * Open notice windows are left alone; initializeNoticeWindowSystem may be called again afterwards
+ */
+export const stopNoticeWindowSystem = (): void => {
+  stopWindowSystem?.()
+  stopWindowSystem = null
+}
@@ -0,0 +1,76 @@
+import type { MessagePriority, MessageType } from '../types/message'
+
+/**
+ * Numeric weight for each priority level (higher is more urgent)
+ */
+const PRIORITY_WEIGHTS: Record<MessagePriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  critical: 3,
+}
+
+/**
+ * Get the numeric weight of a message's priority
+ * @param message - Message to inspect
+ * @returns Priority weight, 'normal' when unset
+ */
+export const getPriorityWeight = (message: MessageType): number => {
+  return PRIORITY_WEIGHTS[message.priority ?? 'normal'] ?? PRIORITY_WEIGHTS.normal
+}
+
+/**
+ * Check whether a message is at least as urgent as a given priority
+ * @param message - Message to inspect
+ * @param threshold - Minimum priority
+ * @returns True if the message's priority is at or above the threshold
+ */
+export const meetsPriority = (message: MessageType, threshold: MessagePriority): boolean => {
+  return getPriorityWeight(message) >= PRIORITY_WEIGHTS[threshold]
+}
+
+/**
+ * Insert a message into a queue ordered by priority
+ * Messages of equal priority keep FIFO order unless `ahead` is set,
+ * in which case the message goes in front of its priority band
+ * @param queue - Queue ordered by descending priority
+ * @param message - Message to insert
+ * @param ahead - Place the message before others of the same priority
+ * @returns New queue array
+ */
+export const insertByPriority = (
+  queue: MessageType[],
+  message: MessageType,
+  ahead = false
+): MessageType[] => {
+  const weight = getPriorityWeight(message)
+  let index = queue.findIndex((m) =>
+    ahead ? getPriorityWeight(m) <= weight : getPriorityWeight(m) < weight
+  )
+  if (index === -1) index = queue.length
+  return [...queue.slice(0, index), message, ...queue.slice(index)]
+}
+
+/**
+ * Check whether an incoming message should preempt the one currently showing
+ * @param incoming - Newly enqueued message
+ * @param current - Message currently showing
+ * @returns True if the incoming message is critical and outranks the current one
+ */
+export const shouldPreempt = (incoming: MessageType, current: MessageType | null): boolean => {
+  if (!current || incoming.priority !== 'critical') return false
+  return getPriorityWeight(incoming) > getPriorityWeight(current)
+}
+
+/**
+ * Find the message that should give way first when a slot is needed
+ * @param messages - Messages currently showing, oldest first
+ * @returns The lowest-priority message (the most recent one on ties), or null
+ */
+export const getLowestPriority = (messages: MessageType[]): MessageType | null => {
+  return messages.reduce<MessageType | null>(
+    (lowest, message) =>
+      !lowest || getPriorityWeight(message) <= getPriorityWeight(lowest) ? message : lowest,
+    null
+  )
+}
@@ -0,0 +1,68 @@
+import type { NoticeCommand } from '../types/message'
+import { getNoticeConfig, setNoticeConfig } from '../config/noticeConfig'
+import { getWindowAdapter } from './windowAdapter'
+import { getMetaValue, setMetaValue } from './db'
+import { noticeLog } from './logger'
+
+/**
+ * Event carrying commands from other windows to the queue owner
+ */
+export const NOTICE_COMMAND_EVENT = 'tauri-notice://command'
+
+/**
+ * Check whether this window runs the queue
+ * Outside a window runtime there is only one context, which then owns the queue
+ * @returns True in the window labelled config.ownerLabel
+ */
+export const isQueueOwner = (): boolean => {
+  try {
+    return getWindowAdapter().getCurrentLabel() === getNoticeConfig().ownerLabel
+  } catch {
+    return true
+  }
+}
+
+/**
+ * Meta key of the window that took over the queue when no window had the configured owner label
+ */
+const CLAIMED_OWNER_KEY = 'queue.claimedOwner'
+
+/**
+ * Take over the queue when no window has the configured owner label
+ * Without this an app whose main window isn't labelled config.ownerLabel would never show a notice.
+ * The first app window (not a notice window) to initialize runs the queue and later ones defer to it
+ * @returns True if this window now runs the queue
+ */
+export const claimQueueOwnership = async (): Promise<boolean> => {
+  if (isQueueOwner()) return true
+
+  const adapter = getWindowAdapter()
+  const { ownerLabel } = getNoticeConfig()
+  const label = adapter.getCurrentLabel()
+  if (label.startsWith('notice-') || (await adapter.getWindow(ownerLabel))) return false
+
+  const claimed = await getMetaValue(CLAIMED_OWNER_KEY)
+  const owner = claimed && claimed !== label && (await adapter.getWindow(claimed)) ? claimed : label
+  if (owner === label) {
+    await setMetaValue(CLAIMED_OWNER_KEY, label)
+  }
+  setNoticeConfig({ ownerLabel: owner })
+
+  noticeLog.warn(`No window is labelled '${ownerLabel}'; set config.ownerLabel to your main window's label`, {
+    ownerLabel,
+    runsIn: owner,
+  })
+  return owner === label
+}
+
+/**
+ * Forward a command to the queue owner
+ * @param command - Command to run in the owner window
+ */
+export const sendNoticeCommand = async (command: NoticeCommand): Promise<void> => {
+  noticeLog.debug('Forwarding command to queue owner', {
+    command: command.type,
+    ownerLabel: getNoticeConfig().ownerLabel,
+  })
+  await getWindowAdapter().emit(NOTICE_COMMAND_EVENT, command)
+}
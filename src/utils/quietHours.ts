@@ -0,0 +1,75 @@
+import type { QuietHoursRule } from '../types/message'
+
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Parse 'HH:MM' into minutes since midnight
+ * @param time - Time of day
+ * @returns Minutes since midnight, or null if malformed
+ */
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time)
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Check whether a rule applies on a given weekday
+ */
+const appliesOn = (rule: QuietHoursRule, day: number): boolean => {
+  return !rule.days || rule.days.includes(day)
+}
+
+/**
+ * Check whether a time falls inside any quiet-hours rule
+ * Rules whose end is before their start run past midnight (e.g. 22:00 to 07:00)
+ * @param rules - Quiet-hours rules
+ * @param date - Time to check (default: now)
+ * @returns True if notices should be held
+ */
+export const isInQuietHours = (rules: QuietHoursRule[], date = new Date()): boolean => {
+  const minute = date.getHours() * 60 + date.getMinutes()
+  const today = date.getDay()
+  const yesterday = (today + 6) % 7
+
+  return rules.some((rule) => {
+    const start = parseTimeOfDay(rule.start)
+    const end = parseTimeOfDay(rule.end)
+    if (start === null || end === null || start === end) return false
+
+    if (start < end) {
+      return appliesOn(rule, today) && minute >= start && minute < end
+    }
+    return (
+      (appliesOn(rule, today) && minute >= start) || (appliesOn(rule, yesterday) && minute < end)
+    )
+  })
+}
+
+/**
+ * Get the delay until the next quiet-hours start or end
+ * @param rules - Quiet-hours rules
+ * @param date - Current time (default: now)
+ * @returns Delay in milliseconds, or null if there are no valid rules
+ */
+export const getNextQuietHoursBoundary = (
+  rules: QuietHoursRule[],
+  date = new Date()
+): number | null => {
+  const boundaries = rules
+    .flatMap((rule) => [parseTimeOfDay(rule.start), parseTimeOfDay(rule.end)])
+    .filter((minute): minute is number => minute !== null)
+  if (boundaries.length === 0) return null
+
+  const minute = date.getHours() * 60 + date.getMinutes()
+  const msIntoMinute = date.getSeconds() * 1000 + date.getMilliseconds()
+  const minutesAhead = Math.min(
+    ...boundaries.map((boundary) => (boundary - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY)
+  )
+
+  return minutesAhead * 60 * 1000 - msIntoMinute
+}
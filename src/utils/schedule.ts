@@ -0,0 +1,69 @@
+import type { MessageType, StoredMessage } from '../types/message'
+
+/**
+ * A queued message, which may carry a snooze time when it was loaded from the database
+ */
+type SchedulableMessage = MessageType & Partial<Pick<StoredMessage, 'snoozedUntil'>>
+
+/**
+ * Longest delay accepted by setTimeout
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * Parse an ISO timestamp into epoch milliseconds
+ * @param value - ISO timestamp
+ * @returns Epoch milliseconds, or null if unset or invalid
+ */
+const toTime = (value?: string): number | null => {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Check whether a message has passed its expiry time
+ * @param message - Message to check
+ * @param now - Current time in epoch milliseconds
+ * @returns True if the message has expired
+ */
+export const isExpired = (message: MessageType, now = Date.now()): boolean => {
+  const expiresAt = toTime(message.expiresAt)
+  return expiresAt !== null && expiresAt <= now
+}
+
+/**
+ * Check whether a message may be shown now
+ * @param message - Message to check
+ * @param now - Current time in epoch milliseconds
+ * @returns True if the message has no future delivery or snooze time
+ */
+export const isDue = (message: SchedulableMessage, now = Date.now()): boolean => {
+  const showAt = toTime(message.showAt)
+  const snoozedUntil = toTime(message.snoozedUntil)
+  return (showAt === null || showAt <= now) && (snoozedUntil === null || snoozedUntil <= now)
+}
+
+/**
+ * Find the next time the queue needs attention: a held or snoozed message becoming due,
+ * or a queued or showing message expiring
+ * @param queued - Messages waiting in the queue
+ * @param showing - Messages currently showing
+ * @param now - Current time in epoch milliseconds
+ * @returns Delay in milliseconds until the next event, or null if nothing is scheduled
+ */
+export const getNextWakeDelay = (
+  queued: SchedulableMessage[],
+  showing: MessageType[],
+  now = Date.now()
+): number | null => {
+  const times = [
+    ...queued.map((m) => toTime(m.showAt)),
+    ...queued.map((m) => toTime(m.snoozedUntil)),
+    ...queued.map((m) => toTime(m.expiresAt)),
+    ...showing.map((m) => toTime(m.expiresAt)),
+  ].filter((time): time is number => time !== null && time > now)
+
+  if (times.length === 0) return null
+  return Math.min(Math.min(...times) - now, MAX_TIMEOUT)
+}
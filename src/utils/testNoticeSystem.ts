@@ -0,0 +1,112 @@
+import type { MessageType, NoticeConfig } from '../types/message'
+import { useMessageQueueStore } from '../stores/messageQueueStore'
+import { resetNoticeConfig, setNoticeConfig } from '../config/noticeConfig'
+import {
+  createFakeWindowAdapter,
+  type FakeNoticeWindow,
+  type FakeWindowAdapter,
+  type FakeWindowAdapterOptions,
+} from '../windows/fakeWindowAdapter'
+import { resetDatabase } from './db'
+import { closeAllNoticeWindows } from './noticeWindow'
+import { initializeNoticeSystem, stopNoticeSystem } from './noticeSystem'
+
+/**
+ * A notice system running on in-memory storage and fake windows
+ */
+export interface TestNoticeSystem {
+  /** The fake window layer: created windows, emitted events, simulated failures */
+  windows: FakeWindowAdapter
+  /** The queue store */
+  store: typeof useMessageQueueStore
+  /** Enqueue a message, like useNoticeWindow().showNotice */
+  showNotice: (message: MessageType) => Promise<void>
+  /** The open window of a message, if any */
+  getNoticeWindow: (messageId: string) => FakeNoticeWindow | undefined
+  /** Simulate the user closing a notice window */
+  closeNotice: (messageId: string) => Promise<void>
+  /** Let pending async work (window creation, destroy handling, next notice) finish */
+  flush: () => Promise<void>
+  /** Close all windows, stop the system and reset the store and config */
+  dispose: () => Promise<void>
+}
+
+/**
+ * Number of macrotask turns flush waits; each window open or close takes a few
+ */
+const FLUSH_TURNS = 20
+
+const flush = async (): Promise<void> => {
+  for (let i = 0; i < FLUSH_TURNS; i++) {
+    await new Promise<void>((resolve) => setTimeout(resolve, 0))
+  }
+}
+
+/**
+ * Put the store back into its initial state
+ */
+const resetStore = (): void => {
+  useMessageQueueStore.setState({
+    ...useMessageQueueStore.getInitialState(),
+    lastActivityAt: Date.now(),
+  })
+}
+
+/**
+ * Start a notice system that needs no Tauri runtime or IndexedDB, e.g. for Vitest with jsdom
+ * Uses in-memory storage and a fake window adapter; flush() relies on real timers.
+ * Each call starts from a clean system, so it can be used in every test
+ * @param config - Config overrides applied on top of the test defaults
+ * @param windowOptions - Monitors and current label of the fake window layer
+ * @returns Handles to drive and inspect the system
+ *
+ * @example
+ * ```typescript
+ * const system = await createTestNoticeSystem()
+ * await system.showNotice({ id: '1', title: 'Hi', type: 'announcement', data: {} })
+ * await system.flush()
+ * expect(system.windows.openWindows()).toHaveLength(1)
+ * await system.dispose()
+ * ```
+ */
+export const createTestNoticeSystem = async (
+  config: Partial<NoticeConfig> = {},
+  windowOptions: FakeWindowAdapterOptions = {}
+): Promise<TestNoticeSystem> => {
+  const windows = createFakeWindowAdapter(windowOptions)
+
+  // A previous system that was not disposed still listens to the old adapter
+  await stopNoticeSystem()
+  resetNoticeConfig()
+  setNoticeConfig({
+    storage: 'memory',
+    windowAdapter: windows,
+    windowRetry: { attempts: 3, delayMs: 0, backoffFactor: 1, timeoutMs: 1000 },
+    ...config,
+  })
+  resetDatabase()
+  resetStore()
+
+  await initializeNoticeSystem()
+
+  return {
+    windows,
+    store: useMessageQueueStore,
+    showNotice: (message) => useMessageQueueStore.getState().enqueue(message),
+    getNoticeWindow: (messageId) =>
+      windows.openWindows().find((w) => w.label === `notice-${messageId}`),
+    closeNotice: async (messageId) => {
+      await windows.destroyWindow(`notice-${messageId}`)
+      await flush()
+    },
+    flush,
+    dispose: async () => {
+      await closeAllNoticeWindows()
+      await flush()
+      await stopNoticeSystem()
+      resetStore()
+      resetNoticeConfig()
+      resetDatabase()
+    },
+  }
+}
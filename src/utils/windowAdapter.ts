@@ -0,0 +1,21 @@
+import type { NoticeWindowAdapter } from '../types/windowAdapter'
+import { getNoticeConfig } from '../config/noticeConfig'
+import { createTauriWindowAdapter } from '../windows/tauriWindowAdapter'
+
+let tauriAdapter: NoticeWindowAdapter | null = null
+
+/**
+ * Get the window layer selected by NoticeConfig.windowAdapter
+ * @returns The active window adapter
+ */
+export const getWindowAdapter = (): NoticeWindowAdapter => {
+  const { windowAdapter } = getNoticeConfig()
+  if (windowAdapter !== 'tauri') {
+    return windowAdapter
+  }
+
+  if (!tauriAdapter) {
+    tauriAdapter = createTauriWindowAdapter()
+  }
+  return tauriAdapter
+}
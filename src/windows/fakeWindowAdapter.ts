@@ -0,0 +1,210 @@
+import type {
+  NoticeMonitorArea,
+  NoticeWindowAdapter,
+  NoticeWindowCreateOptions,
+  NoticeWindowHandle,
+} from '../types/windowAdapter'
+
+/**
+ * A window opened through the fake adapter
+ */
+export interface FakeNoticeWindow extends NoticeWindowHandle {
+  /** Options the window was created with */
+  options: NoticeWindowCreateOptions
+  /** Current position (physical pixels) */
+  position: { x: number; y: number }
+  /** Whether the window has been destroyed */
+  destroyed: boolean
+}
+
+/**
+ * Options for createFakeWindowAdapter
+ */
+export interface FakeWindowAdapterOptions {
+  /** Monitor work areas in physical pixels; index 0 is the primary monitor (default: one 1920x1080 monitor) */
+  monitors?: NoticeMonitorArea[]
+  /** Label reported as the current window (default: 'main') */
+  currentLabel?: string
+  /** Labels of other app windows open from the start (default: none) */
+  appWindows?: string[]
+}
+
+/**
+ * The fake window layer as seen from one window
+ */
+export interface FakeWindowContext extends NoticeWindowAdapter {
+  /** Label of the window this context belongs to */
+  label: string
+}
+
+/**
+ * Window adapter that runs without Tauri, for tests and headless environments
+ */
+export interface FakeWindowAdapter extends NoticeWindowAdapter {
+  /** Every window created so far, closed ones included, in creation order */
+  readonly createdWindows: FakeNoticeWindow[]
+  /** Created windows that are still open (app windows not included) */
+  openWindows(): FakeNoticeWindow[]
+  /** Simulate the user or the OS closing a window (fires its destroyed handlers) */
+  destroyWindow(label: string): Promise<void>
+  /** Make the next window creations fail as if Tauri emitted tauri://error */
+  failNextWindows(count?: number, reason?: string): void
+  /** Make the next window creations take this long to be confirmed */
+  delayNextWindows(delayMs: number, count?: number): void
+  /** Replace the reported monitors */
+  setMonitors(monitors: NoticeMonitorArea[]): void
+  /** Events emitted so far, oldest first */
+  readonly emittedEvents: Array<{ event: string; payload: unknown }>
+  /**
+   * The same windows and events as seen from another window, e.g. a notice window sending commands
+   * to the queue owner. A label that isn't an open notice window is registered as an app window
+   */
+  forWindow(label: string): FakeWindowContext
+}
+
+/**
+ * Create a window adapter that keeps windows and events in memory
+ * Every "window" lives in the calling JS context, so events reach all listeners directly.
+ * The current window and windows registered through forWindow count as open app windows
+ * @param options - Monitors and current window label
+ * @returns Fake window adapter
+ */
+export const createFakeWindowAdapter = (options: FakeWindowAdapterOptions = {}): FakeWindowAdapter => {
+  let monitors = options.monitors ?? [{ left: 0, top: 0, width: 1920, height: 1080 }]
+  const currentLabel = options.currentLabel ?? 'main'
+  const createdWindows: FakeNoticeWindow[] = []
+  const emittedEvents: Array<{ event: string; payload: unknown }> = []
+  const listeners = new Map<string, Set<(payload: any) => void>>()
+  const failures: string[] = []
+  const delays: number[] = []
+  const appWindows = new Map<string, FakeNoticeWindow>()
+
+  const findOpen = (label: string) => createdWindows.find((w) => w.label === label && !w.destroyed)
+  const findWindow = (label: string) => {
+    const appWindow = appWindows.get(label)
+    return findOpen(label) ?? (appWindow && !appWindow.destroyed ? appWindow : undefined)
+  }
+
+  const createFakeWindow = (label: string, windowOptions: NoticeWindowCreateOptions): FakeNoticeWindow => {
+    const destroyedHandlers: Array<() => void> = []
+
+    // Like Tauri, handlers run after the call that destroyed the window has returned
+    const destroy = async () => {
+      if (fakeWindow.destroyed) return
+      fakeWindow.destroyed = true
+      await Promise.resolve()
+      destroyedHandlers.splice(0).forEach((handler) => handler())
+    }
+
+    const fakeWindow: FakeNoticeWindow = {
+      label,
+      options: windowOptions,
+      position: { x: windowOptions.x ?? 0, y: windowOptions.y ?? 0 },
+      destroyed: false,
+      close: destroy,
+      destroy,
+      setPosition: async (x, y) => {
+        fakeWindow.position = { x, y }
+      },
+      onDestroyed: (handler) => {
+        destroyedHandlers.push(handler)
+      },
+    }
+    return fakeWindow
+  }
+
+  const registerAppWindow = (label: string) => {
+    if (!findWindow(label)) {
+      appWindows.set(label, createFakeWindow(label, {}))
+    }
+  }
+
+  // The windows share one set of windows and one event bus and differ only in their label
+  const windowLayer = (label: string): NoticeWindowAdapter => ({
+    createWindow: async (windowLabel, windowOptions) => {
+      if (findWindow(windowLabel)) {
+        throw new Error(`a window with label \`${windowLabel}\` already exists`)
+      }
+      const failure = failures.shift()
+      if (failure !== undefined) {
+        throw new Error(failure)
+      }
+
+      const delay = delays.shift()
+      if (delay !== undefined) {
+        await new Promise<void>((resolve) => setTimeout(resolve, delay))
+        if (findWindow(windowLabel)) {
+          throw new Error(`a window with label \`${windowLabel}\` already exists`)
+        }
+      }
+
+      const fakeWindow = createFakeWindow(windowLabel, windowOptions)
+      createdWindows.push(fakeWindow)
+      return fakeWindow
+    },
+
+    getWindow: async (windowLabel) => findWindow(windowLabel) ?? null,
+
+    getAllWindows: async () =>
+      [...appWindows.values(), ...createdWindows].filter((w) => !w.destroyed),
+
+    getCurrentLabel: () => label,
+
+    getMonitorArea: async (selector) => {
+      if (typeof selector === 'number') {
+        return monitors[selector] ?? monitors[0] ?? null
+      }
+      return monitors[0] ?? null
+    },
+
+    emit: async (event, payload) => {
+      emittedEvents.push({ event, payload })
+      listeners.get(event)?.forEach((handler) => handler(payload))
+    },
+
+    listen: async (event, handler) => {
+      const handlers = listeners.get(event) ?? new Set()
+      handlers.add(handler)
+      listeners.set(event, handlers)
+      return () => {
+        handlers.delete(handler)
+      }
+    },
+  })
+
+  registerAppWindow(currentLabel)
+  options.appWindows?.forEach(registerAppWindow)
+
+  return {
+    ...windowLayer(currentLabel),
+    createdWindows,
+    emittedEvents,
+
+    openWindows: () => createdWindows.filter((w) => !w.destroyed),
+
+    destroyWindow: async (label) => {
+      await findWindow(label)?.destroy()
+    },
+
+    failNextWindows: (count = 1, reason = 'Simulated window creation failure') => {
+      for (let i = 0; i < count; i++) {
+        failures.push(reason)
+      }
+    },
+
+    delayNextWindows: (delayMs, count = 1) => {
+      for (let i = 0; i < count; i++) {
+        delays.push(delayMs)
+      }
+    },
+
+    setMonitors: (nextMonitors) => {
+      monitors = nextMonitors
+    },
+
+    forWindow: (label) => {
+      registerAppWindow(label)
+      return { ...windowLayer(label), label }
+    },
+  }
+}
@@ -0,0 +1,112 @@
+import { WebviewWindow, getCurrentWebviewWindow } from '@tauri-apps/api/webviewWindow'
+import {
+  primaryMonitor,
+  currentMonitor,
+  availableMonitors,
+  monitorFromPoint,
+  cursorPosition,
+  PhysicalPosition,
+  type Monitor,
+} from '@tauri-apps/api/window'
+import { emit, listen } from '@tauri-apps/api/event'
+import type { WindowPosition } from '../types/message'
+import type { NoticeWindowAdapter, NoticeWindowHandle } from '../types/windowAdapter'
+
+/**
+ * Wrap a Tauri window in a NoticeWindowHandle
+ * @param webviewWindow - Tauri window
+ * @returns Handle
+ */
+const toHandle = (webviewWindow: WebviewWindow): NoticeWindowHandle => ({
+  label: webviewWindow.label,
+  close: () => webviewWindow.close(),
+  destroy: () => webviewWindow.destroy(),
+  setPosition: (x, y) => webviewWindow.setPosition(new PhysicalPosition(x, y)),
+  onDestroyed: (handler) => {
+    webviewWindow.once('tauri://destroyed', handler)
+  },
+})
+
+/**
+ * Find the monitor a notice should appear on
+ * @param selector - 'primary', 'current' (the calling window's monitor), 'cursor' or an index into the monitor list
+ * @returns The monitor, falling back to the primary one, or null if none is reported
+ */
+const resolveMonitor = async (selector: WindowPosition['monitor'] = 'primary'): Promise<Monitor | null> => {
+  let monitor: Monitor | null = null
+
+  if (typeof selector === 'number') {
+    monitor = (await availableMonitors())[selector] ?? null
+  } else if (selector === 'current') {
+    monitor = await currentMonitor()
+  } else if (selector === 'cursor') {
+    const cursor = await cursorPosition()
+    monitor = await monitorFromPoint(cursor.x, cursor.y)
+  }
+
+  return monitor ?? (await primaryMonitor()) ?? (await availableMonitors())[0] ?? null
+}
+
+/**
+ * Create the window layer backed by the Tauri runtime (the default)
+ * @returns Tauri window adapter
+ */
+export const createTauriWindowAdapter = (): NoticeWindowAdapter => ({
+  // Tauri converts constructor coordinates with a single scale factor, which misplaces windows
+  // on mixed-DPI setups, so the window starts hidden and is moved in physical pixels first
+  createWindow: (label, { x, y, ...options }) =>
+    new Promise((resolve, reject) => {
+      const placed = x !== undefined && y !== undefined
+      const webviewWindow = new WebviewWindow(label, placed ? { ...options, visible: false } : options)
+
+      webviewWindow.once('tauri://created', async () => {
+        try {
+          if (placed) {
+            try {
+              await webviewWindow.setPosition(new PhysicalPosition(x, y))
+            } finally {
+              if (options.visible !== false) await webviewWindow.show()
+            }
+          }
+          resolve(toHandle(webviewWindow))
+        } catch (error) {
+          // The window exists, but the attempt fails and the caller discards it
+          reject(error)
+        }
+      })
+      webviewWindow.once('tauri://error', (event) =>
+        reject(
+          new Error(typeof event.payload === 'string' ? event.payload : JSON.stringify(event.payload))
+        )
+      )
+    }),
+
+  getWindow: async (label) => {
+    const webviewWindow = await WebviewWindow.getByLabel(label)
+    return webviewWindow ? toHandle(webviewWindow) : null
+  },
+
+  getAllWindows: async () => (await WebviewWindow.getAll()).map(toHandle),
+
+  getCurrentLabel: () => getCurrentWebviewWindow().label,
+
+  // Uses the work area, so taskbars and docks are avoided
+  getMonitorArea: async (selector) => {
+    const monitor = await resolveMonitor(selector)
+    if (!monitor) return null
+
+    const { position, size } = monitor.workArea ?? { position: monitor.position, size: monitor.size }
+    return {
+      left: position.x,
+      top: position.y,
+      width: size.width,
+      height: size.height,
+      scaleFactor: monitor.scaleFactor || 1,
+    }
+  },
+
+  emit: (event, payload) => emit(event, payload),
+
+  listen: <T>(event: string, handler: (payload: T) => void) =>
+    listen<T>(event, (tauriEvent) => handler(tauriEvent.payload)),
+})
@@ -0,0 +1,75 @@
+// @vitest-environment happy-dom
+import { act } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import { resetNoticeConfig, setNoticeConfig } from '../src/config/noticeConfig'
+import { useAutoCloseTimer } from '../src/hooks/useAutoClose'
+import { createFakeWindowAdapter, type FakeWindowAdapter } from '../src/windows/fakeWindowAdapter'
+import { notice, renderHook } from './helpers'
+
+const toast = notice('1', { title: 'Saved', type: 'toast', autoCloseMs: 1000 })
+
+describe('auto-close', () => {
+  describe('countdown in a notice window', () => {
+    let windows: FakeWindowAdapter
+    let countdown: ReturnType<typeof renderHook<ReturnType<typeof useAutoCloseTimer>>>
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      // Tauri focuses a window when it opens
+      vi.spyOn(document, 'hasFocus').mockReturnValue(true)
+      windows = createFakeWindowAdapter({ currentLabel: 'notice-1' })
+      setNoticeConfig({ storage: 'memory', windowAdapter: windows })
+      countdown = renderHook(() => useAutoCloseTimer(toast))
+    })
+
+    afterEach(() => {
+      countdown.unmount()
+      vi.restoreAllMocks()
+      vi.useRealTimers()
+      resetNoticeConfig()
+    })
+
+    it('closes a freshly opened notice when the time runs out', async () => {
+      expect(countdown.result.current.paused).toBe(false)
+
+      await act(() => vi.advanceTimersByTimeAsync(1100))
+
+      expect(countdown.result.current.remainingMs).toBe(0)
+      expect(await windows.getWindow('notice-1')).toBeNull()
+    })
+
+    it('pauses once the user focuses the notice', async () => {
+      await act(() => vi.advanceTimersByTimeAsync(300))
+
+      act(() => {
+        window.dispatchEvent(new Event('focus'))
+      })
+      await act(() => vi.advanceTimersByTimeAsync(2000))
+
+      expect(countdown.result.current.paused).toBe(true)
+      expect(countdown.result.current.remainingMs).toBe(700)
+      expect(await windows.getWindow('notice-1')).not.toBeNull()
+    })
+  })
+
+  describe('window options', () => {
+    let system: TestNoticeSystem
+
+    afterEach(async () => {
+      await system.dispose()
+    })
+
+    it('opens auto-closing notices without taking focus unless they ask for it', async () => {
+      system = await createTestNoticeSystem({ maxConcurrent: 3 })
+      await system.showNotice(toast)
+      await system.showNotice({ ...toast, id: '2', windowOptions: { focus: true } })
+      await system.showNotice({ ...toast, id: '3', autoCloseMs: 0 })
+      await system.flush()
+
+      expect(system.getNoticeWindow('1')?.options.focus).toBe(false)
+      expect(system.getNoticeWindow('2')?.options.focus).toBe(true)
+      expect(system.getNoticeWindow('3')?.options.focus).toBe(true)
+    })
+  })
+})
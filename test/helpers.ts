@@ -0,0 +1,47 @@
+import { act, createElement } from 'react'
+import { createRoot } from 'react-dom/client'
+import type { TestNoticeSystem } from '../src/testing'
+import type { MessageType } from '../src/types/message'
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean
+}
+
+/**
+ * Build a notice for tests
+ * @param id - Message ID
+ * @param fields - Fields to set on top of the defaults
+ * @returns The notice
+ */
+export const notice = (id: string, fields: Partial<MessageType> = {}): MessageType => ({
+  id,
+  title: `Notice ${id}`,
+  type: 'announcement',
+  data: {},
+  ...fields,
+})
+
+/**
+ * Labels of the open notice windows, in the order they were opened
+ * @param system - The test system
+ * @returns Window labels
+ */
+export const labels = (system: TestNoticeSystem): string[] =>
+  system.windows.openWindows().map((w) => w.label)
+
+/**
+ * Render a hook in a detached React root; needs a DOM test environment
+ * @param useHook - The hook call
+ * @returns The latest return value, updated on every render, and a function that unmounts
+ */
+export const renderHook = <T>(useHook: () => T) => {
+  globalThis.IS_REACT_ACT_ENVIRONMENT = true
+  const result = { current: undefined as T }
+  const Probe = () => {
+    result.current = useHook()
+    return null
+  }
+  const root = createRoot(document.createElement('div'))
+  act(() => root.render(createElement(Probe)))
+  return { result, unmount: () => act(() => root.unmount()) }
+}
@@ -0,0 +1,34 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import { useHideAllNotices } from '../src/hooks/useHideAllNotices'
+import { getMessage } from '../src/utils/db'
+import { onNoticeEvent } from '../src/utils/noticeEvents'
+import { notice, renderHook } from './helpers'
+
+describe('useHideAllNotices', () => {
+  let system: TestNoticeSystem
+
+  afterEach(async () => {
+    await system.dispose()
+  })
+
+  it('hides every notice exactly once', async () => {
+    system = await createTestNoticeSystem({ maxConcurrent: 1 })
+    await system.showNotice(notice('1'))
+    await system.showNotice(notice('2'))
+    await system.flush()
+
+    const events: string[] = []
+    const stop = onNoticeEvent((event) => events.push(`${event.type}:${event.message.id}`))
+    const { result, unmount } = renderHook(() => useHideAllNotices())
+    await result.current.hideAllNotices()
+    await system.flush()
+    stop()
+    unmount()
+
+    expect(system.windows.openWindows()).toEqual([])
+    expect(events).toEqual(['hidden:1', 'hidden:2'])
+    expect(await getMessage('1')).toBeUndefined()
+  })
+})
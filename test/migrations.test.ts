@@ -0,0 +1,118 @@
+import 'fake-indexeddb/auto'
+import Dexie from 'dexie'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createDexieStorage } from '../src/storage/dexieStorage'
+
+const DATABASE_NAME = 'notice-migration-test'
+
+/**
+ * Rows as version 1 of the library stored them: no scope, and the oldest ones without read flags
+ */
+const V1_ROWS = [
+  {
+    id: 'second',
+    title: 'Second',
+    type: 'announcement',
+    data: {},
+    timestamp: '2024-01-01T00:00:02.000Z',
+    queueStatus: 'pending',
+    queuePosition: 1,
+  },
+  {
+    id: 'first',
+    title: 'First',
+    type: 'announcement',
+    data: { userId: 7 },
+    timestamp: '2024-01-01T00:00:01.000Z',
+    queueStatus: 'pending',
+    queuePosition: 0,
+  },
+  {
+    id: 'done',
+    title: 'Done',
+    type: 'announcement',
+    data: {},
+    timestamp: '2024-01-01T00:00:00.000Z',
+    queueStatus: 'shown',
+    queuePosition: 0,
+  },
+]
+
+/**
+ * Create a database the way version 1 of the library did
+ */
+const seedV1Database = async () => {
+  const legacy = new Dexie(DATABASE_NAME)
+  legacy.version(1).stores({ messages: 'id, queueStatus, queuePosition, timestamp' })
+  await legacy.table('messages').bulkAdd(V1_ROWS)
+  legacy.close()
+}
+
+describe('database migrations', () => {
+  afterEach(async () => {
+    await Dexie.delete(DATABASE_NAME)
+  })
+
+  it('backfills scope and read flags when upgrading from v1', async () => {
+    await seedV1Database()
+    const storage = createDexieStorage(DATABASE_NAME)
+
+    const first = await storage.getMessage('default', 'first')
+    expect(first).toMatchObject({ scope: 'default', isRead: false, isShown: false })
+    expect(await storage.getMessage('default', 'done')).toMatchObject({ scope: 'default', isShown: true })
+  })
+
+  it('returns upgraded pending rows in queue order', async () => {
+    await seedV1Database()
+    const storage = createDexieStorage(DATABASE_NAME)
+
+    const pending = await storage.getPendingMessages('default')
+    expect(pending.map((m) => m.id)).toEqual(['first', 'second'])
+  })
+
+  it('keeps every row when the custom index version is bumped', async () => {
+    await seedV1Database()
+    const before = createDexieStorage(DATABASE_NAME)
+    expect(await before.getPendingMessages('default')).toHaveLength(2)
+
+    const after = createDexieStorage(DATABASE_NAME, { version: 1, fields: ['data.userId'] })
+    const pending = await after.getPendingMessages('default')
+    expect(pending.map((m) => m.id)).toEqual(['first', 'second'])
+    expect(await after.getMessage('default', 'first')).toMatchObject({ data: { userId: 7 }, scope: 'default' })
+    expect((await after.getMessageHistory({ scope: 'default' })).messages.map((m) => m.id)).toEqual([
+      'done',
+    ])
+
+    // The app index exists next to the library's own
+    const raw = await new Dexie(DATABASE_NAME).open()
+    expect(raw.table('notices').schema.indexes.map((index) => index.name)).toEqual(
+      expect.arrayContaining(['scope', '[scope+queueStatus]', 'data.userId'])
+    )
+    raw.close()
+  })
+
+  it('keeps notices with the same ID in different scopes apart', async () => {
+    await seedV1Database()
+    const storage = createDexieStorage(DATABASE_NAME)
+
+    await storage.saveMessage({
+      ...V1_ROWS[1],
+      title: 'Other account',
+      scope: 'account-b',
+      queueStatus: 'pending',
+      isRead: false,
+      isShown: false,
+    })
+    await storage.updateQueueStatus('account-b', 'first', 'hidden')
+
+    expect(await storage.getMessage('default', 'first')).toMatchObject({
+      title: 'First',
+      queueStatus: 'pending',
+    })
+    expect(await storage.getMessage('account-b', 'first')).toMatchObject({
+      title: 'Other account',
+      queueStatus: 'hidden',
+    })
+    expect(await storage.hasMessage('account-b', 'second')).toBe(false)
+  })
+})
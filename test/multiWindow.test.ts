@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import type { NoticeCommand, NoticeEvent } from '../src/types/message'
+import { getNoticeConfig } from '../src/config/noticeConfig'
+import { getMessageHistory } from '../src/utils/db'
+import { onNoticeEvent } from '../src/utils/noticeEvents'
+import { closeNoticeWindow } from '../src/utils/noticeWindow'
+import { NOTICE_COMMAND_EVENT } from '../src/utils/queueOwner'
+import { labels, notice } from './helpers'
+
+describe('several windows', () => {
+  let system: TestNoticeSystem
+  let stopEvents: (() => void) | null = null
+
+  afterEach(async () => {
+    stopEvents?.()
+    stopEvents = null
+    await system.dispose()
+  })
+
+  it('queues a notice once when the owner and a notice window enqueue it together', async () => {
+    system = await createTestNoticeSystem({ maxConcurrent: 1 })
+    const settings = system.windows.forWindow('settings')
+    const send = (command: NoticeCommand) => settings.emit(NOTICE_COMMAND_EVENT, command)
+
+    await Promise.all([
+      system.showNotice(notice('1')),
+      send({ type: 'enqueue', message: notice('1') }),
+      send({ type: 'enqueue', message: notice('2') }),
+      system.showNotice(notice('2')),
+    ])
+    await system.flush()
+
+    expect(system.windows.createdWindows.map((w) => w.label)).toEqual(['notice-1'])
+    expect(system.store.getState().queue.map((m) => m.id)).toEqual(['2'])
+  })
+
+  it('closes a notice once when it is closed from several windows at the same time', async () => {
+    system = await createTestNoticeSystem({ maxConcurrent: 1 })
+    const closed: NoticeEvent[] = []
+    stopEvents = onNoticeEvent((event) => closed.push(event), 'closed')
+
+    await system.showNotice(notice('1'))
+    await system.showNotice(notice('2'))
+    await system.flush()
+
+    const noticeWindow = system.windows.forWindow('notice-1')
+    await Promise.all([
+      closeNoticeWindow('1'),
+      noticeWindow.emit(NOTICE_COMMAND_EVENT, { type: 'close', messageId: '1' }),
+      system.windows.destroyWindow('notice-1'),
+    ])
+    await system.flush()
+
+    expect(closed.map((event) => event.message.id)).toEqual(['1'])
+    expect(labels(system)).toEqual(['notice-2'])
+    expect(system.windows.createdWindows.map((w) => w.label)).toEqual(['notice-1', 'notice-2'])
+    expect((await getMessageHistory({ status: 'shown' })).messages.map((m) => m.id)).toEqual(['1'])
+  })
+
+  it('runs the queue in the first app window when no window has the owner label', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    system = await createTestNoticeSystem({ logger }, { currentLabel: 'app' })
+
+    await system.showNotice(notice('1'))
+    await system.flush()
+
+    expect(getNoticeConfig().ownerLabel).toBe('app')
+    expect(labels(system)).toEqual(['notice-1'])
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("No window is labelled 'main'"), {
+      ownerLabel: 'main',
+      runsIn: 'app',
+    })
+  })
+
+  it('leaves the queue to the labelled owner when it is open', async () => {
+    system = await createTestNoticeSystem({}, { currentLabel: 'settings', appWindows: ['main'] })
+
+    await system.showNotice(notice('1'))
+    await system.flush()
+
+    expect(getNoticeConfig().ownerLabel).toBe('main')
+    expect(system.windows.emittedEvents.map((e) => e.event)).toContain(NOTICE_COMMAND_EVENT)
+    expect(labels(system)).toEqual([])
+  })
+})
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  applyTypeDefaults,
+  resetNoticeConfig,
+  setNoticeConfig,
+  validateNoticeConfig,
+} from '../src/config/noticeConfig'
+import type { NoticeConfig } from '../src/types/message'
+
+describe('notice config', () => {
+  afterEach(() => {
+    resetNoticeConfig()
+  })
+
+  it('lists every invalid field', () => {
+    expect(() =>
+      validateNoticeConfig({
+        maxConcurrent: 1.5,
+        quietHours: [{ start: '22:00', end: 'late' }],
+        windowRetry: { attempts: 0, delayMs: 0, backoffFactor: 2, timeoutMs: 1000 },
+      })
+    ).toThrow(/maxConcurrent.*quietHours.*windowRetry/)
+  })
+
+  it('reports a type config that is not an object', () => {
+    const config = { types: { toast: null, banner: { width: -1 } } } as unknown as Partial<NoticeConfig>
+    expect(() => validateNoticeConfig(config)).toThrow(
+      'Invalid notice config: types.toast must be an object of type settings; types.banner.width'
+    )
+  })
+
+  it('accepts a valid config', () => {
+    expect(() =>
+      validateNoticeConfig({
+        customIndexes: { version: 1, fields: ['data.userId'] },
+        quietHours: [{ start: '22:00', end: '07:00' }],
+        dndBreakthroughPriority: 'high',
+      })
+    ).not.toThrow()
+  })
+
+  it('stores the default auto-close delay with the message', () => {
+    setNoticeConfig({ defaultAutoCloseMs: 5000, types: { toast: { autoCloseMs: 2000 } } })
+    const base = { id: '1', title: 'Hi', data: {} }
+
+    expect(applyTypeDefaults({ ...base, type: 'announcement' }).autoCloseMs).toBe(5000)
+    expect(applyTypeDefaults({ ...base, type: 'toast' }).autoCloseMs).toBe(2000)
+    expect(applyTypeDefaults({ ...base, type: 'toast', autoCloseMs: 0 }).autoCloseMs).toBe(0)
+  })
+
+  it('stores the effective window options with the message', () => {
+    setNoticeConfig({
+      defaultWindowOptions: { decorations: false, shadow: true },
+      types: { toast: { windowOptions: { shadow: false } } },
+    })
+    const base = { id: '1', title: 'Hi', data: {} }
+
+    expect(applyTypeDefaults({ ...base, type: 'announcement' }).windowOptions).toEqual({
+      decorations: false,
+      shadow: true,
+    })
+    expect(
+      applyTypeDefaults({ ...base, type: 'toast', windowOptions: { decorations: true } }).windowOptions
+    ).toEqual({ decorations: true, shadow: false })
+  })
+})
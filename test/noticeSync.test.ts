@@ -0,0 +1,335 @@
+import { once } from 'node:events'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { EventSource } from 'eventsource'
+import { WebSocket, WebSocketServer } from 'ws'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import type {
+  NoticeServerEvent,
+  NoticeSync,
+  NoticeSyncConnection,
+  NoticeSyncTransport,
+} from '../src/types/sync'
+import { createPollingTransport } from '../src/sync/pollingTransport'
+import { createSseTransport } from '../src/sync/sseTransport'
+import { createWebSocketTransport } from '../src/sync/webSocketTransport'
+import { getMessage, getMessageHistory, getMetaValue } from '../src/utils/db'
+import { getNoticeDebugLog } from '../src/utils/logger'
+import { createNoticeSync } from '../src/utils/noticeSync'
+import { notice } from './helpers'
+
+/**
+ * Start an HTTP server on a free local port
+ */
+const startHttpServer = async (
+  handler: (request: IncomingMessage, response: ServerResponse) => void
+): Promise<{ server: Server; baseUrl: string }> => {
+  const server = createServer(handler)
+  server.listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+}
+
+const stopHttpServer = async (server: Server) => {
+  server.closeAllConnections()
+  server.close()
+  await once(server, 'close')
+}
+
+/**
+ * Read a JSON request body
+ */
+const readJson = async (request: IncomingMessage): Promise<unknown> => {
+  let body = ''
+  for await (const chunk of request) body += chunk
+  return JSON.parse(body)
+}
+
+/**
+ * A transport driven by the test itself
+ */
+const createManualTransport = () => {
+  const connections: NoticeSyncConnection[] = []
+  const transport: NoticeSyncTransport = {
+    connect: (connection) => {
+      connections.push(connection)
+    },
+    disconnect: () => {},
+    acknowledge: async () => {},
+  }
+  const send = (event: NoticeServerEvent) => connections[connections.length - 1].onEvent(event)
+  return { transport, connections, send }
+}
+
+describe('notice sync', () => {
+  let system: TestNoticeSystem
+  let sync: NoticeSync | null = null
+  const cleanups: Array<() => Promise<void>> = []
+
+  beforeAll(() => {
+    // Node 20 has neither as a global
+    globalThis.WebSocket = WebSocket as unknown as typeof globalThis.WebSocket
+    globalThis.EventSource = EventSource as unknown as typeof globalThis.EventSource
+  })
+
+  afterEach(async () => {
+    sync?.stop()
+    sync = null
+    for (const cleanup of cleanups.splice(0)) await cleanup()
+    await system.dispose()
+  })
+
+  describe('WebSocket transport', () => {
+    const startServer = async () => {
+      const server = new WebSocketServer({ port: 0, host: '127.0.0.1' })
+      await once(server, 'listening')
+      const sockets: Array<{ socket: WebSocket; url: string }> = []
+      const acks: unknown[] = []
+      server.on('connection', (socket, request) => {
+        sockets.push({ socket, url: request.url ?? '' })
+        socket.on('message', (data) => acks.push(JSON.parse(String(data))))
+      })
+      cleanups.push(async () => {
+        server.clients.forEach((client) => client.terminate())
+        server.close()
+        await once(server, 'close')
+      })
+      const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/notices`
+      return { url, sockets, acks }
+    }
+
+    it('applies events and sends delivered and read receipts', async () => {
+      system = await createTestNoticeSystem()
+      const { url, sockets, acks } = await startServer()
+      sync = createNoticeSync({ transport: createWebSocketTransport({ url }) })
+      await sync.start()
+      await vi.waitFor(() => expect(sockets).toHaveLength(1))
+
+      sockets[0].socket.send(JSON.stringify({ type: 'notice', message: notice('1'), cursor: 'c1' }))
+      await vi.waitFor(() => expect(system.getNoticeWindow('1')).toBeDefined())
+      await vi.waitFor(() =>
+        expect(acks).toEqual([{ type: 'ack', ack: 'delivered', messageId: '1' }])
+      )
+
+      await system.closeNotice('1')
+      await vi.waitFor(() => expect(acks).toContainEqual({ type: 'ack', ack: 'read', messageId: '1' }))
+    })
+
+    it('reconnects with the last cursor and resumes from it after a restart', async () => {
+      system = await createTestNoticeSystem()
+      const { url, sockets } = await startServer()
+      const transport = () => createWebSocketTransport({ url, reconnectDelayMs: 10 })
+      sync = createNoticeSync({ transport: transport() })
+      await sync.start()
+      await vi.waitFor(() => expect(sockets).toHaveLength(1))
+      expect(sockets[0].url).toBe('/notices')
+
+      sockets[0].socket.send(JSON.stringify({ type: 'notice', message: notice('1'), cursor: 'c1' }))
+      await vi.waitFor(() => expect(sync!.getCursor()).toBe('c1'))
+
+      sockets[0].socket.close()
+      await vi.waitFor(() => expect(sockets).toHaveLength(2))
+      expect(sockets[1].url).toBe('/notices?cursor=c1')
+
+      sync.stop()
+      sync = createNoticeSync({ transport: transport() })
+      await sync.start()
+      await vi.waitFor(() => expect(sockets).toHaveLength(3))
+      expect(sockets[2].url).toBe('/notices?cursor=c1')
+    })
+  })
+
+  describe('Server-Sent Events transport', () => {
+    const startServer = async () => {
+      const streams: Array<{ response: ServerResponse; url: string; lastEventId?: string }> = []
+      const acks: unknown[] = []
+      const { server, baseUrl } = await startHttpServer(async (request, response) => {
+        if (request.method === 'POST') {
+          acks.push(await readJson(request))
+          response.end()
+          return
+        }
+        response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+        response.write('retry: 10\n\n')
+        streams.push({
+          response,
+          url: request.url ?? '',
+          lastEventId: request.headers['last-event-id'] as string | undefined,
+        })
+      })
+      cleanups.push(() => stopHttpServer(server))
+      const send = (id: string, event: NoticeServerEvent) =>
+        streams[streams.length - 1].response.write(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`)
+      return { baseUrl, streams, acks, send }
+    }
+
+    it('uses event ids as cursors, posts receipts and resumes after the stream drops', async () => {
+      system = await createTestNoticeSystem()
+      const { baseUrl, streams, acks, send } = await startServer()
+      const transport = () =>
+        createSseTransport({ url: `${baseUrl}/stream`, ackUrl: `${baseUrl}/ack`, reconnectDelayMs: 10 })
+      sync = createNoticeSync({ transport: transport() })
+      await sync.start()
+      await vi.waitFor(() => expect(streams).toHaveLength(1))
+
+      send('e1', { type: 'notice', message: notice('1') })
+      await vi.waitFor(() => expect(system.getNoticeWindow('1')).toBeDefined())
+      await vi.waitFor(() => expect(acks).toEqual([{ type: 'delivered', messageId: '1' }]))
+      expect(sync.getCursor()).toBe('e1')
+
+      await system.closeNotice('1')
+      await vi.waitFor(() => expect(acks).toContainEqual({ type: 'read', messageId: '1' }))
+
+      // EventSource reconnects by itself and reports the last id it saw
+      streams[0].response.end()
+      await vi.waitFor(() => expect(streams).toHaveLength(2))
+      expect(streams[1].lastEventId).toBe('e1')
+
+      sync.stop()
+      sync = createNoticeSync({ transport: transport() })
+      await sync.start()
+      await vi.waitFor(() => expect(streams).toHaveLength(3))
+      expect(streams[2].url).toBe('/stream?cursor=e1')
+    })
+  })
+
+  describe('polling transport', () => {
+    it('polls from the last cursor, retries failed polls and posts receipts', async () => {
+      system = await createTestNoticeSystem({ maxConcurrent: 2 })
+      const requests: string[] = []
+      const acks: unknown[] = []
+      const replies: Array<{ status: number; body: unknown }> = [
+        { status: 200, body: [{ type: 'notice', message: notice('1'), cursor: 'p1' }] },
+        { status: 500, body: {} },
+        { status: 200, body: { events: [{ type: 'notice', message: notice('2'), cursor: 'p2' }] } },
+      ]
+      const { server, baseUrl } = await startHttpServer(async (request, response) => {
+        if (request.method === 'POST') {
+          acks.push(await readJson(request))
+          response.end()
+          return
+        }
+        requests.push(request.url ?? '')
+        const reply = replies.shift() ?? { status: 200, body: [] }
+        response.writeHead(reply.status, { 'Content-Type': 'application/json' })
+        response.end(JSON.stringify(reply.body))
+      })
+      cleanups.push(() => stopHttpServer(server))
+
+      sync = createNoticeSync({
+        transport: createPollingTransport({
+          url: `${baseUrl}/feed`,
+          ackUrl: `${baseUrl}/ack`,
+          intervalMs: 20,
+          reconnectDelayMs: 10,
+        }),
+      })
+      await sync.start()
+
+      await vi.waitFor(() => expect(sync!.getCursor()).toBe('p2'))
+      expect(requests.slice(0, 3)).toEqual(['/feed', '/feed?cursor=p1', '/feed?cursor=p1'])
+      await vi.waitFor(() => expect(requests[3]).toBe('/feed?cursor=p2'))
+      await vi.waitFor(() =>
+        expect(acks).toEqual([
+          { type: 'delivered', messageId: '1' },
+          { type: 'delivered', messageId: '2' },
+        ])
+      )
+      expect(await getMetaValue('sync.cursor.default')).toBe('p2')
+    })
+
+    it('enqueues a polled backlog as one batch', async () => {
+      system = await createTestNoticeSystem({ debug: true })
+      const backlog = ['1', '2', '3'].map((id) => ({
+        type: 'notice',
+        message: notice(id),
+        cursor: `p${id}`,
+      }))
+      let replied = false
+      const { server, baseUrl } = await startHttpServer((_request, response) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' })
+        response.end(JSON.stringify(replied ? [] : backlog))
+        replied = true
+      })
+      cleanups.push(() => stopHttpServer(server))
+
+      sync = createNoticeSync({
+        transport: createPollingTransport({ url: `${baseUrl}/feed`, intervalMs: 1000 }),
+      })
+      await sync.start()
+
+      await vi.waitFor(() => expect(sync!.getCursor()).toBe('p3'))
+      const writes = getNoticeDebugLog().filter((entry) => entry.message === 'Queued messages')
+      expect(writes.map((entry) => entry.context.count)).toEqual([3])
+      expect(system.store.getState().queue.map((m) => m.id)).toEqual(['2', '3'])
+    })
+  })
+
+  it('hides every notice on hideAll and keeps them in history', async () => {
+    system = await createTestNoticeSystem({ maxConcurrent: 1 })
+    const { transport, send } = createManualTransport()
+    sync = createNoticeSync({ transport })
+    await sync.start()
+
+    await send({ type: 'notice', message: notice('1') })
+    await send({ type: 'notice', message: notice('2') })
+    await system.flush()
+    await send({ type: 'hideAll' })
+    await system.flush()
+
+    expect(system.windows.openWindows()).toEqual([])
+    expect(system.store.getState().queue).toEqual([])
+    const hidden = await getMessageHistory({ status: 'hidden' })
+    expect(hidden.messages.map((m) => m.id).sort()).toEqual(['1', '2'])
+  })
+
+  it('stops waiting for read receipts of notices that are hidden, expire or fail', async () => {
+    system = await createTestNoticeSystem()
+    const { transport, send } = createManualTransport()
+    const acknowledge = vi.spyOn(transport, 'acknowledge')
+    sync = createNoticeSync({ transport })
+    await sync.start()
+    system.windows.failNextWindows(3)
+
+    await send({ type: 'notice', message: notice('failing') })
+    await send({ type: 'notice', message: notice('hidden') })
+    await send({ type: 'notice', message: notice('late', { expiresAt: new Date(Date.now() - 1000).toISOString() }) })
+    await send({ type: 'notice', message: notice('read') })
+    await system.flush()
+    await send({ type: 'hide', messageId: 'hidden' })
+    await system.closeNotice('read')
+
+    expect(JSON.parse((await getMetaValue('sync.unread.default'))!)).toEqual([])
+    expect(acknowledge.mock.calls.filter(([ack]) => ack.type === 'read')).toEqual([
+      [{ type: 'read', messageId: 'read' }],
+    ])
+  })
+
+  it('follows scope switches with each scope keeping its own cursor', async () => {
+    system = await createTestNoticeSystem()
+    const { transport, connections, send } = createManualTransport()
+    sync = createNoticeSync({ transport })
+    await sync.start()
+
+    await send({ type: 'notice', message: notice('a'), cursor: 'c1' })
+    const previousConnection = connections[0]
+
+    await system.store.getState().switchScope('account-b')
+    await vi.waitFor(() => expect(connections).toHaveLength(2))
+    expect(connections[1].getCursor()).toBeNull()
+
+    // Events still arriving on the old connection don't leak into the new scope
+    await previousConnection.onEvent({ type: 'notice', message: notice('late'), cursor: 'c2' })
+    await send({ type: 'notice', message: notice('b'), cursor: 'b1' })
+
+    expect(await getMessage('b', 'account-b')).toBeDefined()
+    expect(await getMessage('late', 'account-b')).toBeUndefined()
+    expect(await getMetaValue('sync.cursor.default')).toBe('c1')
+    expect(await getMetaValue('sync.cursor.account-b')).toBe('b1')
+
+    await system.store.getState().switchScope('default')
+    await vi.waitFor(() => expect(connections).toHaveLength(3))
+    expect(connections[2].getCursor()).toBe('c1')
+  })
+})
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import { NOTICE_COMMAND_EVENT } from '../src/utils/queueOwner'
+import { labels, notice } from './helpers'
+
+describe('notice system', () => {
+  let system: TestNoticeSystem
+
+  afterEach(async () => {
+    await system.dispose()
+  })
+
+  it('shows notices one at a time', async () => {
+    system = await createTestNoticeSystem({ maxConcurrent: 1 })
+
+    await system.showNotice(notice('1'))
+    await system.showNotice(notice('2'))
+    await system.flush()
+    expect(labels(system)).toEqual(['notice-1'])
+
+    await system.closeNotice('1')
+    expect(labels(system)).toEqual(['notice-2'])
+  })
+
+  it('starts from a clean system after the previous one was disposed', async () => {
+    system = await createTestNoticeSystem()
+    await system.showNotice(notice('1'))
+    await system.flush()
+    await system.dispose()
+
+    system = await createTestNoticeSystem()
+    // Commands from other windows arrive through the new window layer
+    await system.windows.emit(NOTICE_COMMAND_EVENT, { type: 'enqueue', message: notice('2') })
+    await system.flush()
+
+    expect(system.windows.createdWindows.map((w) => w.label)).toEqual(['notice-2'])
+    expect(system.store.getState().showingMessages.map((m) => m.id)).toEqual(['2'])
+  })
+
+  it('keeps a held message from preempting during Do Not Disturb', async () => {
+    system = await createTestNoticeSystem({
+      preemption: 'requeue',
+      dndBreakthroughPriority: null,
+    })
+    await system.showNotice(notice('low', { priority: 'low' }))
+    await system.flush()
+    await system.store.getState().setDoNotDisturb(true)
+
+    await system.showNotice(notice('urgent', { priority: 'critical' }))
+    await system.flush()
+    expect(labels(system)).toEqual(['notice-low'])
+
+    // Without a summary type, ending DND shows nothing extra
+    await system.closeNotice('low')
+    await system.store.getState().setDoNotDisturb(false)
+    await system.flush()
+    expect(labels(system)).toEqual(['notice-urgent'])
+  })
+
+  it('lets a critical message preempt outside Do Not Disturb', async () => {
+    system = await createTestNoticeSystem({ preemption: 'requeue' })
+    await system.showNotice(notice('low', { priority: 'low' }))
+    await system.flush()
+
+    await system.showNotice(notice('urgent', { priority: 'critical' }))
+    await system.flush()
+    expect(labels(system)).toEqual(['notice-urgent'])
+    expect(system.store.getState().queue.map((m) => m.id)).toEqual(['low'])
+  })
+
+  it('does not preempt while the queue is paused', async () => {
+    system = await createTestNoticeSystem({ preemption: 'requeue' })
+    await system.showNotice(notice('low', { priority: 'low' }))
+    await system.flush()
+    await system.store.getState().pause()
+
+    await system.showNotice(notice('urgent', { priority: 'critical' }))
+    await system.flush()
+    expect(labels(system)).toEqual(['notice-low'])
+    expect(system.store.getState().queue.map((m) => m.id)).toEqual(['urgent'])
+  })
+})
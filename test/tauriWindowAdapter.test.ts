@@ -0,0 +1,88 @@
+import { PhysicalPosition } from '@tauri-apps/api/window'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTauriWindowAdapter } from '../src/windows/tauriWindowAdapter'
+
+interface MockWebviewWindow {
+  label: string
+  options: Record<string, unknown>
+  setPosition: ReturnType<typeof vi.fn>
+  show: ReturnType<typeof vi.fn>
+  /** Fire a window event the way the Tauri runtime would */
+  fire(event: string, payload?: unknown): Promise<void>
+}
+
+const { webviewWindows } = vi.hoisted(() => ({ webviewWindows: [] as MockWebviewWindow[] }))
+
+vi.mock('@tauri-apps/api/webviewWindow', () => {
+  class WebviewWindow implements MockWebviewWindow {
+    setPosition = vi.fn(async () => {})
+    show = vi.fn(async () => {})
+    private handlers = new Map<string, (event: { payload: unknown }) => unknown>()
+
+    constructor(
+      public label: string,
+      public options: Record<string, unknown>
+    ) {
+      webviewWindows.push(this)
+    }
+
+    once(event: string, handler: (event: { payload: unknown }) => unknown) {
+      this.handlers.set(event, handler)
+      return Promise.resolve(() => {})
+    }
+
+    async fire(event: string, payload?: unknown) {
+      await this.handlers.get(event)?.({ payload })
+    }
+  }
+  return { WebviewWindow, getCurrentWebviewWindow: () => ({ label: 'main' }) }
+})
+
+describe('Tauri window adapter', () => {
+  beforeEach(() => {
+    webviewWindows.length = 0
+  })
+
+  it('resolves once Tauri reports the window created', async () => {
+    const created = createTauriWindowAdapter().createWindow('notice-1', { url: '/notice/toast?id=1' })
+    const [webviewWindow] = webviewWindows
+    expect(webviewWindow.options).toEqual({ url: '/notice/toast?id=1' })
+
+    await webviewWindow.fire('tauri://created')
+    await expect(created).resolves.toMatchObject({ label: 'notice-1' })
+    expect(webviewWindow.show).not.toHaveBeenCalled()
+  })
+
+  it('opens placed windows hidden and shows them once moved', async () => {
+    const created = createTauriWindowAdapter().createWindow('notice-1', { url: '/n', x: 3200, y: 1800 })
+    const [webviewWindow] = webviewWindows
+    expect(webviewWindow.options).toEqual({ url: '/n', visible: false })
+
+    await webviewWindow.fire('tauri://created')
+    await expect(created).resolves.toMatchObject({ label: 'notice-1' })
+    expect(webviewWindow.setPosition).toHaveBeenCalledWith(new PhysicalPosition(3200, 1800))
+    expect(webviewWindow.show).toHaveBeenCalled()
+  })
+
+  it('rejects with the error Tauri reports', async () => {
+    const adapter = createTauriWindowAdapter()
+
+    const duplicate = adapter.createWindow('notice-1', { url: '/n' })
+    await webviewWindows[0].fire('tauri://error', 'a window with label `notice-1` already exists')
+    await expect(duplicate).rejects.toThrow('a window with label `notice-1` already exists')
+
+    const crashed = adapter.createWindow('notice-2', { url: '/n' })
+    await webviewWindows[1].fire('tauri://error', { code: 'webview' })
+    await expect(crashed).rejects.toThrow('{"code":"webview"}')
+  })
+
+  it('rejects when a created window cannot be placed', async () => {
+    const created = createTauriWindowAdapter().createWindow('notice-1', { url: '/n', x: 0, y: 0 })
+    const [webviewWindow] = webviewWindows
+    webviewWindow.setPosition.mockRejectedValueOnce(new Error('window not found'))
+
+    await webviewWindow.fire('tauri://created')
+    await expect(created).rejects.toThrow('window not found')
+    expect(webviewWindow.show).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import { notice } from './helpers'
+
+const positions = (system: TestNoticeSystem) =>
+  system.windows.openWindows().map((w) => [w.label, w.position.x, w.position.y])
+
+describe('notice window positions', () => {
+  let system: TestNoticeSystem
+
+  afterEach(async () => {
+    await system.dispose()
+  })
+
+  it('starts a new column when the stack reaches the edge of the work area', async () => {
+    // 400x300 windows, 20px padding and 10px gaps fit three to a column on 1080px
+    system = await createTestNoticeSystem({ maxConcurrent: 4 })
+    for (const id of ['1', '2', '3', '4']) await system.showNotice(notice(id))
+    await system.flush()
+
+    expect(positions(system)).toEqual([
+      ['notice-1', 1500, 760],
+      ['notice-2', 1500, 450],
+      ['notice-3', 1500, 140],
+      ['notice-4', 1090, 760],
+    ])
+
+    // Closing the bottom window moves the rest down, back into one column
+    await system.closeNotice('1')
+    expect(positions(system)).toEqual([
+      ['notice-2', 1500, 760],
+      ['notice-3', 1500, 450],
+      ['notice-4', 1500, 140],
+    ])
+  })
+
+  it('keeps every window inside a scaled work area', async () => {
+    // 960x540 logical pixels: one window per column, two columns side by side
+    const monitor = { left: 0, top: 0, width: 1920, height: 1080, scaleFactor: 2 }
+    system = await createTestNoticeSystem({ maxConcurrent: 3 }, { monitors: [monitor] })
+    for (const id of ['1', '2', '3']) await system.showNotice(notice(id))
+    await system.flush()
+
+    expect(positions(system)).toEqual([
+      ['notice-1', 1080, 440],
+      ['notice-2', 260, 440],
+      // No third column fits, so the stack starts over at the first one
+      ['notice-3', 1080, 440],
+    ])
+  })
+})
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createTestNoticeSystem, type TestNoticeSystem } from '../src/testing'
+import { getMessage } from '../src/utils/db'
+import { notice } from './helpers'
+
+describe('notice window retries', () => {
+  let system: TestNoticeSystem
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await system.dispose()
+  })
+
+  it('retries a failed window and shows it once creation succeeds', async () => {
+    system = await createTestNoticeSystem()
+    system.windows.failNextWindows(2)
+
+    await system.showNotice(notice('1'))
+    await system.flush()
+
+    expect(system.windows.openWindows().map((w) => w.label)).toEqual(['notice-1'])
+    expect(await getMessage('1')).toMatchObject({ queueStatus: 'showing' })
+  })
+
+  it('marks the message failed after the last attempt and shows the next one', async () => {
+    system = await createTestNoticeSystem({
+      maxConcurrent: 1,
+      windowRetry: { attempts: 2, delayMs: 0, backoffFactor: 1, timeoutMs: 1000 },
+    })
+    system.windows.failNextWindows(2, 'webview crashed')
+
+    await system.showNotice(notice('1'))
+    await system.showNotice(notice('2'))
+    await system.flush()
+
+    expect(await getMessage('1')).toMatchObject({
+      queueStatus: 'failed',
+      failureReason: 'webview crashed',
+    })
+    expect(system.windows.openWindows().map((w) => w.label)).toEqual(['notice-2'])
+  })
+
+  it('gives up on a window that is not confirmed in time and destroys it when it shows up late', async () => {
+    system = await createTestNoticeSystem({
+      windowRetry: { attempts: 1, delayMs: 0, backoffFactor: 1, timeoutMs: 1000 },
+    })
+    vi.useFakeTimers()
+    system.windows.delayNextWindows(3000)
+
+    await system.showNotice(notice('1'))
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(await getMessage('1')).toMatchObject({
+      queueStatus: 'failed',
+      failureReason: 'Window creation timed out after 1000ms',
+    })
+
+    // The late window is created, then destroyed again
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(system.windows.createdWindows.map((w) => w.label)).toEqual(['notice-1'])
+    expect(system.windows.openWindows()).toEqual([])
+  })
+})